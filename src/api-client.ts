@@ -0,0 +1,227 @@
+/**
+ * MemData HTTP client
+ *
+ * The shared request layer behind callAPI/callAPIGet/callAPIDelete. Adds
+ * per-request timeouts, exponential backoff with jitter for idempotent
+ * requests, Retry-After support and a circuit breaker that fails fast while
+ * the API is unreachable.
+ */
+
+export interface ApiClientOptions {
+  baseUrl: string;
+  apiKey?: string;
+  /** Per-attempt timeout (default: 30s) */
+  timeoutMs?: number;
+  /** Retries after the first attempt (default: 3) */
+  maxRetries?: number;
+  /** Base delay for exponential backoff (default: 500ms) */
+  baseDelayMs?: number;
+  /** Longest delay we are willing to wait before a retry (default: 30s) */
+  maxDelayMs?: number;
+  /** Consecutive failures before the circuit opens (default: 5) */
+  breakerThreshold?: number;
+  /** How long the circuit stays open before a trial request (default: 30s) */
+  breakerCooldownMs?: number;
+}
+
+export interface RequestOptions {
+  body?: Record<string, unknown>;
+  /** Safe to repeat after a timeout or 5xx (GET and DELETE always are) */
+  idempotent?: boolean;
+}
+
+/**
+ * Error from the MemData API or the network beneath it
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    /** HTTP status, or undefined for network errors and timeouts */
+    readonly status?: number,
+    /** True when the request never reached the API or the API was unavailable */
+    readonly unavailable: boolean = false
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+/** Statuses that mean the request was turned away before any work was done, so even writes are safe to repeat */
+const REJECTED_STATUS = new Set([429, 503]);
+
+const RETRY = Symbol('retry');
+
+/** Network errors raised before the request went out, so even writes are safe to retry */
+const NOT_SENT_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH', 'UND_ERR_CONNECT_TIMEOUT']);
+
+/**
+ * True when a fetch error means the request was never sent
+ */
+function notSent(error: unknown): boolean {
+  for (let e = error as { code?: string; cause?: unknown } | undefined; e; e = e.cause as typeof e) {
+    if (e.code && NOT_SENT_CODES.has(e.code)) return true;
+  }
+  return false;
+}
+
+/**
+ * `value` if it is a usable non-negative number, otherwise `fallback`
+ */
+function validNumber(value: number | undefined, fallback: number): number {
+  return value !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export class ApiClient {
+  private readonly timeoutMs: number;
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly breakerThreshold: number;
+  private readonly breakerCooldownMs: number;
+
+  private consecutiveFailures = 0;
+  private openUntil = 0;
+  /** True while the single trial request of the half-open state is in flight */
+  private probing = false;
+
+  constructor(private readonly options: ApiClientOptions) {
+    this.timeoutMs = validNumber(options.timeoutMs, 30_000) || 30_000;
+    this.maxRetries = Math.floor(validNumber(options.maxRetries, 3));
+    this.baseDelayMs = validNumber(options.baseDelayMs, 500);
+    this.maxDelayMs = validNumber(options.maxDelayMs, 30_000);
+    this.breakerThreshold = validNumber(options.breakerThreshold, 5);
+    this.breakerCooldownMs = validNumber(options.breakerCooldownMs, 30_000);
+  }
+
+  /**
+   * Current circuit breaker state
+   */
+  get circuit(): { state: 'closed' | 'open' | 'half-open'; failures: number } {
+    if (this.consecutiveFailures < this.breakerThreshold) {
+      return { state: 'closed', failures: this.consecutiveFailures };
+    }
+    return { state: Date.now() < this.openUntil ? 'open' : 'half-open', failures: this.consecutiveFailures };
+  }
+
+  async request(method: 'GET' | 'POST' | 'DELETE', endpoint: string, options: RequestOptions = {}): Promise<unknown> {
+    const idempotent = method !== 'POST' || options.idempotent === true;
+    let probe = false;
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        const state = this.circuit.state;
+        if (state === 'open') {
+          const seconds = Math.ceil((this.openUntil - Date.now()) / 1000);
+          throw new ApiError(`API unavailable (circuit open, retrying in ${seconds}s)`, undefined, true);
+        }
+        if (state === 'half-open' && !probe) {
+          // One trial request decides whether the circuit closes again; the rest keep failing fast
+          if (this.probing) throw new ApiError('API unavailable (circuit half-open, trial request in progress)', undefined, true);
+          this.probing = probe = true;
+        }
+
+        const response = await this.attempt(method, endpoint, options, idempotent, attempt);
+        if (response === RETRY) continue;
+        return response;
+      }
+    } finally {
+      if (probe) this.probing = false;
+    }
+  }
+
+  /**
+   * One attempt; returns RETRY when the request should be repeated
+   */
+  private async attempt(
+    method: 'GET' | 'POST' | 'DELETE',
+    endpoint: string,
+    options: RequestOptions,
+    idempotent: boolean,
+    attempt: number
+  ): Promise<unknown> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.options.baseUrl}${endpoint}`, {
+        method,
+        headers: {
+          Authorization: `Bearer ${this.options.apiKey}`,
+          ...(options.body ? { 'Content-Type': 'application/json' } : {}),
+        },
+        body: options.body ? JSON.stringify(options.body) : undefined,
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+    } catch (error) {
+      this.recordFailure();
+      const timedOut = error instanceof Error && error.name === 'TimeoutError';
+      const message = timedOut
+        ? `API request timed out after ${this.timeoutMs}ms`
+        : `API request failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+
+      // A write that may have reached the API (reset connection, timeout) may already have
+      // been applied, so it is neither retried nor reported as unavailable (which would queue it)
+      const safe = idempotent || notSent(error);
+      if (safe && attempt < this.maxRetries) {
+        await sleep(this.backoff(attempt));
+        return RETRY;
+      }
+      if (!safe) throw new ApiError(`${message}. The write may have been applied; check before retrying.`);
+      throw new ApiError(message, undefined, true);
+    }
+
+    if (response.ok) {
+      this.consecutiveFailures = 0;
+      return response.json();
+    }
+
+    const text = await response.text();
+    const retryable = RETRYABLE_STATUS.has(response.status);
+    if (response.status >= 500) this.recordFailure();
+
+    // Other 5xx responses may come after the API applied a write (a gateway giving up on a slow
+    // ingest), so like a timeout they are neither retried nor reported as unavailable for writes
+    const safe = idempotent || REJECTED_STATUS.has(response.status);
+    if (retryable && safe && attempt < this.maxRetries) {
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+      if (retryAfter === undefined || retryAfter <= this.maxDelayMs) {
+        await sleep(retryAfter ?? this.backoff(attempt));
+        return RETRY;
+      }
+    }
+
+    const message = `API error (${response.status}): ${text}`;
+    if (retryable && !safe) throw new ApiError(`${message}. The write may have been applied; check before retrying.`, response.status);
+    throw new ApiError(message, response.status, retryable);
+  }
+
+  /**
+   * Exponential backoff with full jitter
+   */
+  private backoff(attempt: number): number {
+    const ceiling = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+
+  private recordFailure(): void {
+    this.consecutiveFailures++;
+    if (this.consecutiveFailures >= this.breakerThreshold) {
+      this.openUntil = Date.now() + this.breakerCooldownMs;
+    }
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Memory archives
+ *
+ * Reads and writes the archives used by memdata_export / memdata_import.
+ * Two formats are supported:
+ *   - JSONL: one JSON record per line
+ *   - Markdown bundle: a readable .md file where each record is introduced by
+ *     an HTML comment carrying its metadata, so it can be parsed back. An
+ *     artifact's metadata includes the line count of its text, so text that
+ *     happens to contain the end marker cannot cut it short.
+ */
+
+import { z } from 'zod';
+
+export const ARCHIVE_VERSION = 1;
+
+export type ArchiveFormat = 'jsonl' | 'markdown';
+
+export interface ArchiveHeader {
+  type: 'header';
+  version: number;
+  exported_at: string;
+  source: string;
+}
+
+export interface ArchiveIdentity {
+  type: 'identity';
+  agent_name: string | null;
+  identity_summary: string | null;
+  working_on: string | null;
+}
+
+export interface ArchiveSession {
+  type: 'session';
+  handoff: Record<string, unknown>;
+}
+
+export interface ArchiveArtifact {
+  type: 'artifact';
+  id: string;
+  name: string;
+  artifact_type: string;
+  created_at: string;
+  tags?: string[];
+  metadata?: Record<string, unknown>;
+  namespace?: string;
+  text: string;
+}
+
+export type ArchiveRecord = ArchiveHeader | ArchiveIdentity | ArchiveSession | ArchiveArtifact;
+
+// Archives can be edited by hand, so each artifact is checked before it is imported
+const artifactSchema = z.object({
+  type: z.literal('artifact'),
+  id: z.string(),
+  name: z.string().min(1),
+  artifact_type: z.string(),
+  created_at: z.string(),
+  tags: z.array(z.string()).optional(),
+  metadata: z.record(z.unknown()).optional(),
+  namespace: z.string().optional(),
+  text: z.string(),
+});
+
+const MARKER = /^<!-- memdata:(header|identity|session|artifact) (.*) -->$/;
+const ARTIFACT_END = '<!-- /memdata:artifact -->';
+
+/**
+ * Pick the format from a file extension
+ */
+export function formatForPath(path: string): ArchiveFormat {
+  return /\.(md|markdown)$/i.test(path) ? 'markdown' : 'jsonl';
+}
+
+/**
+ * Check an artifact record read from an archive
+ */
+export function checkArtifact(record: ArchiveRecord): { success: true; artifact: ArchiveArtifact } | { success: false; message: string } {
+  const result = artifactSchema.safeParse(record);
+  if (result.success) return { success: true, artifact: result.data };
+  const issue = result.error.issues[0];
+  return { success: false, message: `Invalid artifact record: ${issue.path.length ? `${issue.path.join('.')}: ` : ''}${issue.message}` };
+}
+
+export function serializeArchive(records: ArchiveRecord[], format: ArchiveFormat): string {
+  if (format === 'jsonl') {
+    return records.map((r) => JSON.stringify(r)).join('\n') + '\n';
+  }
+
+  const parts: string[] = [];
+  for (const record of records) {
+    const { type, ...meta } = record;
+    if (record.type === 'artifact') {
+      const { text: _text, ...artifactMeta } = meta as Omit<ArchiveArtifact, 'type'>;
+      const lines = record.text.split('\n').length;
+      parts.push(
+        `<!-- memdata:artifact ${JSON.stringify({ ...artifactMeta, lines })} -->\n## ${record.name}\n\n${record.text}\n${ARTIFACT_END}`
+      );
+    } else if (record.type === 'header') {
+      parts.push(`<!-- memdata:header ${JSON.stringify(meta)} -->\n# MemData export (${record.exported_at.split('T')[0]})`);
+    } else {
+      parts.push(`<!-- memdata:${type} ${JSON.stringify(meta)} -->`);
+    }
+  }
+  return parts.join('\n\n') + '\n';
+}
+
+export function parseArchive(text: string): ArchiveRecord[] {
+  // Archives edited or checked out on Windows may have CRLF line endings
+  const normalized = text.replace(/\r\n?/g, '\n');
+  const trimmed = normalized.trimStart();
+  return trimmed.startsWith('{') ? parseJsonl(trimmed) : parseMarkdown(normalized);
+}
+
+function parseJsonl(text: string): ArchiveRecord[] {
+  return text
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line, i) => {
+      try {
+        return JSON.parse(line) as ArchiveRecord;
+      } catch {
+        throw new Error(`Invalid archive: line ${i + 1} is not valid JSON`);
+      }
+    });
+}
+
+function parseMarkdown(text: string): ArchiveRecord[] {
+  const records: ArchiveRecord[] = [];
+  const lines = text.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = MARKER.exec(lines[i]);
+    if (!match) continue;
+
+    let meta: Record<string, unknown>;
+    try {
+      meta = JSON.parse(match[2]) as Record<string, unknown>;
+    } catch {
+      throw new Error(`Invalid archive: bad metadata on line ${i + 1}`);
+    }
+
+    if (match[1] !== 'artifact') {
+      records.push({ type: match[1], ...meta } as ArchiveRecord);
+      continue;
+    }
+
+    // Body runs from after the "## name" heading and blank line to the end marker.
+    // Archives written before line counts were recorded end at the first marker.
+    const { lines: count, ...artifactMeta } = meta;
+    const end = typeof count === 'number' ? i + 3 + count : lines.indexOf(ARTIFACT_END, i + 1);
+    if (end === -1 || lines[end] !== ARTIFACT_END) {
+      const where = typeof count === 'number' ? ` after its ${count} lines` : '';
+      throw new Error(`Invalid archive: artifact on line ${i + 1} is not closed${where}`);
+    }
+    const body = lines.slice(i + 3, end).join('\n');
+    records.push({ type: 'artifact', ...artifactMeta, text: body } as ArchiveArtifact);
+    i = end;
+  }
+
+  return records;
+}
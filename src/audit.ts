@@ -0,0 +1,155 @@
+/**
+ * Audit log
+ *
+ * Opt-in JSONL record of every tool call: when, which tool, which client,
+ * sanitised arguments, the artifacts it touched, whether it worked and how
+ * long it took. The file rotates at a size limit (audit.jsonl -> audit.jsonl.1
+ * -> ...) and only a fixed number of rotated files are kept.
+ */
+
+import { appendFile, mkdir, readFile, rename, rm, stat } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+export interface AuditEntry {
+  ts: string;
+  tool: string;
+  /** MCP client name/version from the initialize handshake */
+  client: string | null;
+  /** HTTP session id; null over stdio */
+  session: string | null;
+  namespace: string | null;
+  args: Record<string, unknown>;
+  artifact_ids: string[];
+  outcome: 'ok' | 'error';
+  error: string | null;
+  latency_ms: number;
+}
+
+export interface AuditFilter {
+  tool?: string;
+  outcome?: AuditEntry['outcome'];
+  artifactId?: string;
+  since?: string;
+  until?: string;
+  limit: number;
+}
+
+/** Arguments holding memory content; only their length is logged */
+const CONTENT_ARGS = new Set(['content', 'summary', 'working_on', 'context', 'identity_summary', 'notes']);
+
+/** Arguments that are credentials for a follow-up call */
+const TOKEN_ARGS = new Set(['confirm_token']);
+
+const MAX_ARG_LENGTH = 200;
+
+/**
+ * Arguments as they are written to the log: memory content is replaced by
+ * its size, tokens are hidden and long strings are cut short. Secrets in what
+ * is left are the caller's job (run the result through the Redactor).
+ */
+export function sanitizeArgs(args: Record<string, unknown>): Record<string, unknown> {
+  const clip = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      return value.length > MAX_ARG_LENGTH ? `${value.slice(0, MAX_ARG_LENGTH)}… [${value.length} chars]` : value;
+    }
+    if (Array.isArray(value)) return value.map(clip);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, clip(v)]));
+    }
+    return value;
+  };
+
+  return Object.fromEntries(
+    Object.entries(args).map(([key, value]) => {
+      if (value === undefined || value === null) return [key, value];
+      if (TOKEN_ARGS.has(key)) return [key, '[token]'];
+      if (CONTENT_ARGS.has(key)) {
+        const size = typeof value === 'string' ? value.length : JSON.stringify(value).length;
+        return [key, `[${size} chars]`];
+      }
+      return [key, clip(value)];
+    })
+  );
+}
+
+export class AuditLog {
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    readonly path: string,
+    /** Rotate once the current file would grow past this */
+    private readonly maxBytes: number,
+    /** Rotated files kept next to the current one */
+    private readonly maxFiles: number
+  ) {}
+
+  /**
+   * Append an entry, rotating first if needed; appends are serialised within this process
+   */
+  append(entry: AuditEntry): Promise<void> {
+    const line = `${JSON.stringify(entry)}\n`;
+    this.writing = this.writing.catch(() => undefined).then(async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      const size = await stat(this.path).then(
+        (s) => s.size,
+        () => 0
+      );
+      if (size > 0 && size + Buffer.byteLength(line) > this.maxBytes) await this.rotate();
+      await appendFile(this.path, line, 'utf8');
+    });
+    return this.writing;
+  }
+
+  /**
+   * Matching entries, newest first. `more` is true when older matches were left out.
+   */
+  async query(filter: AuditFilter): Promise<{ entries: AuditEntry[]; more: boolean }> {
+    await this.writing.catch(() => undefined);
+    const entries: AuditEntry[] = [];
+    const sinceMs = filter.since ? Date.parse(filter.since) : -Infinity;
+    const untilMs = filter.until ? Date.parse(filter.until) : Infinity;
+
+    for (let i = 0; i <= this.maxFiles; i++) {
+      const lines = (await this.readLines(this.file(i))).reverse();
+      for (const line of lines) {
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(line) as AuditEntry;
+        } catch {
+          continue; // a torn write from a crash
+        }
+        const ts = Date.parse(entry.ts);
+        if (ts < sinceMs) return { entries, more: false };
+        if (ts > untilMs) continue;
+        if (filter.tool && entry.tool !== filter.tool) continue;
+        if (filter.outcome && entry.outcome !== filter.outcome) continue;
+        if (filter.artifactId && !entry.artifact_ids?.includes(filter.artifactId)) continue;
+        if (entries.length === filter.limit) return { entries, more: true };
+        entries.push(entry);
+      }
+    }
+    return { entries, more: false };
+  }
+
+  private file(index: number): string {
+    return index === 0 ? this.path : `${this.path}.${index}`;
+  }
+
+  private async readLines(path: string): Promise<string[]> {
+    try {
+      return (await readFile(path, 'utf8')).split('\n').filter(Boolean);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private async rotate(): Promise<void> {
+    await rm(this.file(this.maxFiles), { force: true });
+    for (let i = this.maxFiles - 1; i >= 0; i--) {
+      await rename(this.file(i), this.file(i + 1)).catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== 'ENOENT') throw error;
+      });
+    }
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * In-process response cache
+ *
+ * Agents often repeat the same query within a session. Read results are kept
+ * in a small LRU cache with a TTL, keyed by operation and arguments, and the
+ * whole cache is cleared after any write so results never go stale within
+ * this process.
+ */
+
+export interface CacheStats {
+  enabled: boolean;
+  entries: number;
+  max_entries: number;
+  ttl_ms: number;
+  hits: number;
+  misses: number;
+  /** Hits and misses per cached operation (query, list, ...) */
+  operations: Record<string, { hits: number; misses: number }>;
+}
+
+export class ResponseCache {
+  /** Map iteration order doubles as recency order: oldest first */
+  private entries = new Map<string, { value: unknown; expires: number }>();
+  private counts: Record<string, { hits: number; misses: number }> = {};
+  /** Bumped by clear() so loads that started before a write are not cached */
+  private generation = 0;
+
+  constructor(
+    private readonly maxEntries: number = 100,
+    private readonly ttlMs: number = 60_000
+  ) {}
+
+  get enabled(): boolean {
+    return this.maxEntries > 0 && this.ttlMs > 0;
+  }
+
+  /**
+   * Return the cached result for `operation(args)`, or run `load` and cache
+   * its result when `shouldCache` accepts it
+   */
+  async wrap<T>(
+    operation: string,
+    args: unknown[],
+    load: () => Promise<T>,
+    shouldCache: (value: T) => boolean = () => true
+  ): Promise<T> {
+    if (!this.enabled) return load();
+
+    const key = `${operation}:${JSON.stringify(args)}`;
+    const counts = (this.counts[operation] ||= { hits: 0, misses: 0 });
+    const entry = this.entries.get(key);
+
+    if (entry && entry.expires > Date.now()) {
+      counts.hits++;
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      return entry.value as T;
+    }
+
+    counts.misses++;
+    this.entries.delete(key);
+    const generation = this.generation;
+    const value = await load();
+    if (shouldCache(value) && generation === this.generation) {
+      this.entries.set(key, { value, expires: Date.now() + this.ttlMs });
+      while (this.entries.size > this.maxEntries) {
+        this.entries.delete(this.entries.keys().next().value as string);
+      }
+    }
+    return value;
+  }
+
+  /**
+   * Drop every cached result (called after writes)
+   */
+  clear(): void {
+    this.entries.clear();
+    this.generation++;
+  }
+
+  stats(): CacheStats {
+    let hits = 0;
+    let misses = 0;
+    for (const counts of Object.values(this.counts)) {
+      hits += counts.hits;
+      misses += counts.misses;
+    }
+    return {
+      enabled: this.enabled,
+      entries: this.entries.size,
+      max_entries: this.maxEntries,
+      ttl_ms: this.ttlMs,
+      hits,
+      misses,
+      operations: structuredClone(this.counts),
+    };
+  }
+}
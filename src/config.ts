@@ -0,0 +1,206 @@
+/**
+ * Config file profiles
+ *
+ * Named profiles bundle an API key, URL, namespace and response defaults, so
+ * one installation can switch between accounts or deployments:
+ *
+ *   {
+ *     "default_profile": "work",
+ *     "profiles": {
+ *       "work": { "api_key": "md_...", "namespace": "acme", "defaults": { "format": "compact" } },
+ *       "offline": { "api_url": "file:///home/me/.memdata/store.json" }
+ *     }
+ *   }
+ *
+ * Profiles are read from ~/.memdata/config.json and from the nearest
+ * .memdata.json above the working directory. A project file comes with the
+ * repository, so it may not set api_key or api_url: its profiles only add a
+ * namespace and defaults on top of the user profile of the same name, and it
+ * may pick the profile with "profile". A selected profile's settings override
+ * the matching MEMDATA_* environment variables; anything it leaves out falls
+ * back to them.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { RENDER_STYLES } from './render.js';
+
+export const PROJECT_CONFIG_FILE = '.memdata.json';
+
+export interface ProfileDefaults {
+  /** Response style: markdown, compact or json */
+  format?: string;
+  legend?: boolean;
+  emoji?: boolean;
+  /** IANA time zone for date expressions */
+  timezone?: string;
+  timeout_ms?: number;
+  max_retries?: number;
+}
+
+export interface Profile {
+  api_key?: string;
+  api_url?: string;
+  namespace?: string;
+  defaults?: ProfileDefaults;
+  /** Config file the profile was read from (the project file, if it adds to the profile) */
+  file: string;
+}
+
+export interface ProfileConfig {
+  profiles: Record<string, Profile>;
+  /** Profile picked by a config file, and which file picked it */
+  preferred: { name: string; file: string } | null;
+  /** Config files that were found */
+  files: string[];
+}
+
+export type ProfileSource = '--profile' | 'MEMDATA_PROFILE' | 'config file' | 'memdata_profile';
+
+interface ConfigFile {
+  default_profile?: string;
+  profile?: string;
+  profiles?: Record<string, Omit<Profile, 'file'>>;
+}
+
+/**
+ * Nearest .memdata.json in `cwd` or one of its parents
+ */
+function findProjectConfig(cwd: string): string | null {
+  let dir = resolve(cwd);
+  for (;;) {
+    const candidate = join(dir, PROJECT_CONFIG_FILE);
+    if (existsSync(candidate)) return candidate;
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+function invalid(path: string, message: string): Error {
+  return new Error(`Invalid config in ${path}: ${message}`);
+}
+
+function checkProfile(path: string, name: string, profile: unknown): Omit<Profile, 'file'> {
+  if (!profile || typeof profile !== 'object' || Array.isArray(profile)) {
+    throw invalid(path, `profile "${name}" must be an object`);
+  }
+  const { api_key, api_url, namespace, defaults } = profile as Record<string, unknown>;
+  for (const [key, value] of Object.entries({ api_key, api_url, namespace })) {
+    if (value !== undefined && typeof value !== 'string') throw invalid(path, `${name}.${key} must be a string`);
+  }
+  if (defaults !== undefined) {
+    if (!defaults || typeof defaults !== 'object') throw invalid(path, `${name}.defaults must be an object`);
+    const d = defaults as Record<string, unknown>;
+    if (d.format !== undefined && !RENDER_STYLES.includes(d.format as (typeof RENDER_STYLES)[number])) {
+      throw invalid(path, `${name}.defaults.format must be one of ${RENDER_STYLES.join(', ')}`);
+    }
+    for (const key of ['legend', 'emoji']) {
+      if (d[key] !== undefined && typeof d[key] !== 'boolean') throw invalid(path, `${name}.defaults.${key} must be true or false`);
+    }
+    for (const key of ['timeout_ms', 'max_retries']) {
+      if (d[key] !== undefined && (typeof d[key] !== 'number' || (d[key] as number) < 0)) {
+        throw invalid(path, `${name}.defaults.${key} must be a non-negative number`);
+      }
+    }
+    if (d.timezone !== undefined && typeof d.timezone !== 'string') throw invalid(path, `${name}.defaults.timezone must be a string`);
+  }
+  return profile as Omit<Profile, 'file'>;
+}
+
+function readConfigFile(path: string, project: boolean): ConfigFile | null {
+  let file: ConfigFile;
+  try {
+    file = JSON.parse(readFileSync(path, 'utf8')) as ConfigFile;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw invalid(path, (error as Error).message);
+  }
+  if (!file || typeof file !== 'object' || Array.isArray(file)) throw invalid(path, 'expected a JSON object');
+  if (file.profiles !== undefined && (typeof file.profiles !== 'object' || Array.isArray(file.profiles))) {
+    throw invalid(path, '"profiles" must be an object of named profiles');
+  }
+  for (const [name, profile] of Object.entries(file.profiles || {})) {
+    const { api_key, api_url } = checkProfile(path, name, profile);
+    if (project && (api_key !== undefined || api_url !== undefined)) {
+      throw invalid(path, `${name} sets ${api_key !== undefined ? 'api_key' : 'api_url'}; a project file can only set namespace and defaults`);
+    }
+  }
+  return file;
+}
+
+/**
+ * Read the user config file and the project config file (if any).
+ * Throws on unreadable JSON or malformed profiles.
+ */
+export function loadProfileConfig(userPath: string, cwd: string): ProfileConfig {
+  const config: ProfileConfig = { profiles: {}, preferred: null, files: [] };
+  const projectPath = findProjectConfig(cwd);
+  const paths = [resolve(userPath), ...(projectPath && resolve(projectPath) !== resolve(userPath) ? [projectPath] : [])];
+
+  for (const path of paths) {
+    const file = readConfigFile(path, path !== paths[0]);
+    if (!file) continue;
+    config.files.push(path);
+    for (const [name, profile] of Object.entries(file.profiles || {})) {
+      const base = config.profiles[name];
+      config.profiles[name] = { ...base, ...profile, defaults: { ...base?.defaults, ...profile.defaults }, file: path };
+    }
+    // The project file is read last, so its choice wins
+    const preferred = file.profile ?? file.default_profile;
+    if (preferred) config.preferred = { name: preferred, file: path };
+  }
+
+  return config;
+}
+
+/**
+ * Pick the profile to start with: --profile, then MEMDATA_PROFILE, then the
+ * config files. Null means no profile (environment variables only).
+ */
+export function selectProfile(
+  config: ProfileConfig,
+  flag: string | undefined,
+  env: string | undefined
+): { name: string; source: ProfileSource } | null {
+  const choice = flag
+    ? { name: flag, source: '--profile' as const }
+    : env
+      ? { name: env, source: 'MEMDATA_PROFILE' as const }
+      : config.preferred
+        ? { name: config.preferred.name, source: 'config file' as const }
+        : null;
+  if (choice && !config.profiles[choice.name]) {
+    const known = Object.keys(config.profiles);
+    throw new Error(
+      `Unknown profile "${choice.name}" (from ${choice.source}). ${known.length ? `Known profiles: ${known.join(', ')}` : 'No profiles are configured.'}`
+    );
+  }
+  return choice;
+}
+
+/**
+ * The MEMDATA_* environment variables a profile stands in for
+ */
+export function profileEnv(profile: Profile): Record<string, string> {
+  const env: Record<string, string | undefined> = {
+    MEMDATA_API_KEY: profile.api_key,
+    MEMDATA_API_URL: profile.api_url,
+    MEMDATA_NAMESPACE: profile.namespace,
+    MEMDATA_FORMAT: profile.defaults?.format,
+    MEMDATA_LEGEND: profile.defaults?.legend?.toString(),
+    MEMDATA_EMOJI: profile.defaults?.emoji?.toString(),
+    MEMDATA_TIMEZONE: profile.defaults?.timezone,
+    MEMDATA_TIMEOUT_MS: profile.defaults?.timeout_ms?.toString(),
+    MEMDATA_MAX_RETRIES: profile.defaults?.max_retries?.toString(),
+  };
+  return Object.fromEntries(Object.entries(env).filter((entry): entry is [string, string] => entry[1] !== undefined));
+}
+
+/**
+ * API key safe to show: prefix and last four characters
+ */
+export function maskApiKey(key: string | undefined): string | null {
+  if (!key) return null;
+  return key.length <= 12 ? `${key.slice(0, 3)}…` : `${key.slice(0, 3)}…${key.slice(-4)}`;
+}
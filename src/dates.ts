@@ -0,0 +1,320 @@
+/**
+ * Natural-language date ranges
+ *
+ * Resolves the since/until/range arguments of memdata_query_timerange locally
+ * instead of trusting the model to compute ISO dates. Accepts ISO dates and
+ * expressions such as "yesterday", "last week", "past 30 days", "March",
+ * "Q3 2026", "since March" or "between January and March", evaluated in the
+ * user's time zone, and returns validated ISO timestamps.
+ */
+
+type Unit = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+/** A calendar date in the user's time zone; month is 1-12 */
+interface CivilDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+/** A span of whole days; `end` is exclusive */
+interface Period {
+  start: CivilDate;
+  end: CivilDate;
+}
+
+export interface ResolvedRange {
+  /** ISO timestamp of the first included instant, if bounded */
+  since?: string;
+  /** ISO timestamp of the last included instant, if bounded */
+  until?: string;
+  /** Human-readable range, e.g. "2026-10-12 to 2026-10-18 (Europe/Berlin)" */
+  label: string;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const UNIT_PATTERN = '(day|week|month|quarter|year)s?';
+
+/** Examples of a single date or period, as accepted by since, until and each end of a range */
+const EXAMPLES = '"yesterday", "last week", "past 30 days", "March", "Q3 2026" or an ISO date';
+
+/** Words that start a range expression rather than a single date */
+const RANGE_WORDS = /^(since|from|after|until|till|through|before|up to|between)\b/i;
+
+/**
+ * The time zone to resolve dates in: MEMDATA_TIMEZONE if it is a valid IANA
+ * zone, otherwise the system zone
+ */
+export function resolveTimeZone(configured?: string): string {
+  if (configured) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: configured });
+      return configured;
+    } catch {
+      console.error(`Ignoring invalid MEMDATA_TIMEZONE "${configured}"`);
+    }
+  }
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+function civil(year: number, month: number, day: number): CivilDate {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function formatCivil(c: CivilDate): string {
+  return `${c.year}-${String(c.month).padStart(2, '0')}-${String(c.day).padStart(2, '0')}`;
+}
+
+function compareCivil(a: CivilDate, b: CivilDate): number {
+  return a.year - b.year || a.month - b.month || a.day - b.day;
+}
+
+function addDays(c: CivilDate, days: number): CivilDate {
+  return civil(c.year, c.month, c.day + days);
+}
+
+function addMonths(c: CivilDate, months: number): CivilDate {
+  const first = civil(c.year, c.month + months, 1);
+  const daysInMonth = new Date(Date.UTC(first.year, first.month, 0)).getUTCDate();
+  return { ...first, day: Math.min(c.day, daysInMonth) };
+}
+
+function add(unit: Unit, c: CivilDate, n: number): CivilDate {
+  if (unit === 'day') return addDays(c, n);
+  if (unit === 'week') return addDays(c, 7 * n);
+  return addMonths(c, n * (unit === 'month' ? 1 : unit === 'quarter' ? 3 : 12));
+}
+
+/**
+ * Start of the calendar period containing `c` (weeks start on Monday)
+ */
+function startOf(unit: Unit, c: CivilDate): CivilDate {
+  if (unit === 'day') return c;
+  if (unit === 'week') {
+    const weekday = new Date(Date.UTC(c.year, c.month - 1, c.day)).getUTCDay();
+    return addDays(c, -((weekday + 6) % 7));
+  }
+  if (unit === 'month') return civil(c.year, c.month, 1);
+  if (unit === 'quarter') return civil(c.year, c.month - ((c.month - 1) % 3), 1);
+  return civil(c.year, 1, 1);
+}
+
+/**
+ * The calendar period `offset` units away from the one containing `c`
+ */
+function calendarPeriod(unit: Unit, c: CivilDate, offset: number = 0): Period {
+  const start = add(unit, startOf(unit, c), offset);
+  return { start, end: add(unit, start, 1) };
+}
+
+/**
+ * Today's date in a time zone
+ */
+function today(now: Date, timeZone: string): CivilDate {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: 'numeric', day: 'numeric' }).formatToParts(now);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day') };
+}
+
+/**
+ * Milliseconds the time zone is ahead of UTC at an instant
+ */
+function zoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * The instant local midnight starts on a date, accounting for DST changes
+ */
+function startOfDay(c: CivilDate, timeZone: string): number {
+  const guess = Date.UTC(c.year, c.month - 1, c.day);
+  const offset = zoneOffset(guess, timeZone);
+  const corrected = zoneOffset(guess - offset, timeZone);
+  return guess - corrected;
+}
+
+function monthIndex(name: string): number {
+  const index = MONTHS.indexOf(name.slice(0, 3));
+  const full = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+  return index !== -1 && (name.length === 3 || full[index].startsWith(name) || name === 'sept') ? index + 1 : 0;
+}
+
+/**
+ * Parse an expression that names a period, relative to `now`
+ */
+function parsePeriod(expression: string, now: CivilDate): Period | null {
+  const text = expression.trim().toLowerCase().replace(/\s+/g, ' ').replace(/^the /, '');
+  let match: RegExpMatchArray | null;
+
+  if (text === 'today') return calendarPeriod('day', now);
+  if (text === 'yesterday') return calendarPeriod('day', now, -1);
+  if (text === 'tomorrow') return calendarPeriod('day', now, 1);
+
+  if ((match = text.match(new RegExp(`^(this|current|last|previous|next) ${UNIT_PATTERN}$`)))) {
+    const offset = match[1] === 'last' || match[1] === 'previous' ? -1 : match[1] === 'next' ? 1 : 0;
+    return calendarPeriod(match[2] as Unit, now, offset);
+  }
+
+  // Rolling windows ending today: "past week", "last 30 days"
+  if ((match = text.match(new RegExp(`^(?:past|last) (?:(\\d+) )?${UNIT_PATTERN}$`)))) {
+    const count = Number(match[1] || 1);
+    return { start: addDays(add(match[2] as Unit, now, -count), 1), end: addDays(now, 1) };
+  }
+
+  if ((match = text.match(new RegExp(`^(\\d+|an?|one) ${UNIT_PATTERN} ago$`)))) {
+    const count = /^\d+$/.test(match[1]) ? Number(match[1]) : 1;
+    return calendarPeriod(match[2] as Unit, now, -count);
+  }
+
+  if ((match = text.match(/^(last |this )?(sunday|monday|tuesday|wednesday|thursday|friday|saturday)$/))) {
+    const weekday = new Date(Date.UTC(now.year, now.month - 1, now.day)).getUTCDay();
+    let back = (weekday - WEEKDAYS.indexOf(match[2]) + 7) % 7;
+    if (back === 0 && match[1] === 'last ') back = 7;
+    return calendarPeriod('day', addDays(now, -back));
+  }
+
+  if ((match = text.match(/^([a-z]+)\.?(?:,? (\d{4}))?$/)) && monthIndex(match[1])) {
+    const month = monthIndex(match[1]);
+    // Without a year, the most recent such month (this year's if it has started)
+    const year = match[2] ? Number(match[2]) : month <= now.month ? now.year : now.year - 1;
+    return calendarPeriod('month', civil(year, month, 1));
+  }
+
+  if ((match = text.match(/^q([1-4])(?: (\d{4}))?$/) || text.match(/^(\d{4})[- ]?q([1-4])$/))) {
+    const [quarter, yearText] = match[1].length === 4 ? [match[2], match[1]] : [match[1], match[2]];
+    const start = civil(yearText ? Number(yearText) : now.year, (Number(quarter) - 1) * 3 + 1, 1);
+    // Without a year, the most recent such quarter
+    return calendarPeriod('quarter', !yearText && compareCivil(start, now) > 0 ? add('year', start, -1) : start);
+  }
+
+  if ((match = text.match(/^(\d{4})$/))) return calendarPeriod('year', civil(Number(match[1]), 1, 1));
+
+  if ((match = text.match(/^(\d{4})-(\d{2})$/))) {
+    const month = Number(match[2]);
+    return month >= 1 && month <= 12 ? calendarPeriod('month', civil(Number(match[1]), month, 1)) : null;
+  }
+
+  if ((match = text.match(/^(\d{4})-(\d{2})-(\d{2})$/))) {
+    const date = civil(Number(match[1]), Number(match[2]), Number(match[3]));
+    // Reject dates that roll over, like 2026-02-30
+    return formatCivil(date) === text ? calendarPeriod('day', date) : null;
+  }
+
+  return null;
+}
+
+interface Bound {
+  instant: number;
+  /** Date shown in the label */
+  display: string;
+}
+
+/**
+ * Which instant of a date or period a bound takes: its first (start) or last
+ * (end), or for "before X" / "after X" the instant just before or after it
+ */
+type Edge = 'start' | 'end' | 'before' | 'after';
+
+/**
+ * Resolve one end of a range: a full ISO timestamp is used as is (or one
+ * millisecond either side of it for before/after); anything else is parsed
+ * as a period and the instant at `edge` is taken
+ */
+function resolveBound(expression: string, edge: Edge, now: CivilDate, timeZone: string): Bound {
+  if (/^\d{4}-\d{2}-\d{2}t/i.test(expression.trim())) {
+    const parsed = Date.parse(expression.trim());
+    if (Number.isNaN(parsed)) throw new Error(`Invalid date "${expression}"`);
+    const instant = edge === 'before' ? parsed - 1 : edge === 'after' ? parsed + 1 : parsed;
+    return { instant, display: new Date(instant).toISOString() };
+  }
+
+  const period = parsePeriod(expression, now);
+  if (!period) throw new Error(`Could not understand the date "${expression}". Try ${EXAMPLES}.`);
+  switch (edge) {
+    case 'start':
+      return { instant: startOfDay(period.start, timeZone), display: formatCivil(period.start) };
+    case 'end':
+      return { instant: startOfDay(period.end, timeZone) - 1, display: formatCivil(addDays(period.end, -1)) };
+    case 'before':
+      return { instant: startOfDay(period.start, timeZone) - 1, display: formatCivil(addDays(period.start, -1)) };
+    case 'after':
+      return { instant: startOfDay(period.end, timeZone), display: formatCivil(period.end) };
+  }
+}
+
+/**
+ * Split a range expression into its since and until parts
+ */
+function splitRange(range: string): { since?: string; until?: string; sinceEdge: Edge; untilEdge: Edge } {
+  const text = range.trim();
+  let match: RegExpMatchArray | null;
+
+  if ((match = text.match(/^(?:between|from) (.+?) (?:and|to|until|through) (.+)$/i))) {
+    return { since: match[1], until: match[2], sinceEdge: 'start', untilEdge: 'end' };
+  }
+  // One-sided forms go before the bare "X to Y" split, which would read "up to yesterday" as from "up"
+  if ((match = text.match(/^(since|from|after) (.+)$/i))) {
+    return { since: match[2], sinceEdge: match[1].toLowerCase() === 'after' ? 'after' : 'start', untilEdge: 'end' };
+  }
+  if ((match = text.match(/^(until|till|through|before|up to) (.+)$/i))) {
+    return { until: match[2], sinceEdge: 'start', untilEdge: match[1].toLowerCase() === 'before' ? 'before' : 'end' };
+  }
+  if ((match = text.match(/^(.+?) (?:to|until|through|-|–) (.+)$/i))) {
+    return { since: match[1], until: match[2], sinceEdge: 'start', untilEdge: 'end' };
+  }
+  return { since: text, until: text, sinceEdge: 'start', untilEdge: 'end' };
+}
+
+/**
+ * Resolve since/until/range arguments to ISO timestamps in a time zone.
+ * Explicit since/until override the corresponding end of `range`.
+ */
+export function resolveDateRange(
+  input: { since?: string; until?: string; range?: string },
+  options: { timeZone: string; now?: Date }
+): ResolvedRange {
+  for (const [field, value] of [['since', input.since], ['until', input.until]] as const) {
+    if (value && RANGE_WORDS.test(value.trim())) {
+      throw new Error(`${field} takes a single date or period, like ${EXAMPLES}; put "${value.trim()}" in range instead`);
+    }
+  }
+
+  const now = today(options.now || new Date(), options.timeZone);
+  const parts: { since?: string; until?: string; sinceEdge: Edge; untilEdge: Edge } = input.range
+    ? splitRange(input.range)
+    : { sinceEdge: 'start', untilEdge: 'end' };
+  const sinceText = input.since || parts.since;
+  const untilText = input.until || parts.until;
+
+  const since = sinceText ? resolveBound(sinceText, input.since ? 'start' : parts.sinceEdge, now, options.timeZone) : undefined;
+  const until = untilText ? resolveBound(untilText, input.until ? 'end' : parts.untilEdge, now, options.timeZone) : undefined;
+
+  if (since && until && since.instant > until.instant) {
+    throw new Error(`The range starts (${since.display}) after it ends (${until.display})`);
+  }
+
+  let label = 'all time';
+  if (since && until) label = since.display === until.display ? since.display : `${since.display} to ${until.display}`;
+  else if (since) label = `since ${since.display}`;
+  else if (until) label = `until ${until.display}`;
+
+  return {
+    since: since ? new Date(since.instant).toISOString() : undefined,
+    until: until ? new Date(until.instant).toISOString() : undefined,
+    label: since || until ? `${label} (${options.timeZone})` : label,
+  };
+}
@@ -0,0 +1,331 @@
+/**
+ * File ingestion
+ *
+ * Reads text, Markdown, code and JSON files from disk for memdata_ingest_file
+ * and memdata_ingest_dir. A local manifest of content hashes lets unchanged
+ * files be skipped and changed files replace their previous artifact.
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, realpath, stat } from 'node:fs/promises';
+import { basename, dirname, extname, isAbsolute, join, relative, resolve, sep } from 'node:path';
+import { acquireLock, writeFileAtomic } from './file-lock.js';
+
+const TEXT_EXTENSIONS = new Set([
+  '.txt', '.md', '.markdown', '.mdx', '.rst', '.adoc', '.org',
+  '.json', '.jsonl', '.yaml', '.yml', '.toml', '.ini', '.cfg', '.csv', '.tsv', '.xml',
+  '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py', '.rb', '.go', '.rs', '.java', '.kt',
+  '.swift', '.c', '.h', '.cc', '.cpp', '.hpp', '.cs', '.php', '.sh', '.bash', '.zsh',
+  '.sql', '.graphql', '.proto', '.html', '.css', '.scss', '.vue', '.svelte', '.lua', '.r',
+]);
+
+const IGNORED_DIRS = new Set(['node_modules', '.git', 'dist', 'build', 'coverage', '.next', '.cache', '__pycache__', '.venv']);
+
+/** Files larger than this are skipped */
+export const MAX_FILE_BYTES = 1024 * 1024;
+
+export interface ManifestEntry {
+  hash: string;
+  name: string;
+  artifact_id: string | null;
+  /** Offline queue id while the ingest is waiting to be sent; cleared once it is delivered */
+  queue_id?: string | null;
+  api_url: string;
+  ingested_at: string;
+}
+
+export type FileIngestStatus = 'ingested' | 'updated' | 'unchanged' | 'queued' | 'skipped' | 'failed';
+
+export interface FileIngestResult {
+  path: string;
+  name: string;
+  status: FileIngestStatus;
+  artifactId?: string;
+  chunks?: number;
+  detail?: string;
+}
+
+export interface FileIngestHandlers {
+  /** `note` is reported as the detail of a successful ingest */
+  ingest: (content: string, name: string) => Promise<{ success: boolean; artifactId?: string; chunkCount?: number; queuedId?: string; message?: string; note?: string }>;
+  remove: (artifactId: string) => Promise<unknown>;
+  /** Drop a queued ingest that has not been sent yet; false if it is no longer queued */
+  cancelQueued: (queueId: string) => Promise<boolean>;
+}
+
+/**
+ * Convert a glob (`*`, `**`, `?`, `{a,b}`) to a regular expression over
+ * forward-slash relative paths
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` matches zero or more directories
+        if (glob[i + 2] === '/') {
+          pattern += '(?:.*/)?';
+          i += 2;
+        } else {
+          pattern += '.*';
+          i += 1;
+        }
+      } else {
+        pattern += '[^/]*';
+      }
+    } else if (c === '?') {
+      pattern += '[^/]';
+    } else if (c === '{') {
+      const end = glob.indexOf('}', i);
+      if (end === -1) {
+        pattern += '\\{';
+      } else {
+        const options = glob.slice(i + 1, end).split(',').map((o) => o.replace(/[.+^$()|[\]\\]/g, '\\$&'));
+        pattern += `(?:${options.join('|')})`;
+        i = end;
+      }
+    } else {
+      pattern += c.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+function hasGlob(path: string): boolean {
+  return /[*?{]/.test(path);
+}
+
+function toPosix(path: string): string {
+  return path.split(sep).join('/');
+}
+
+function isInside(parent: string, child: string): boolean {
+  const rel = relative(parent, child);
+  return rel === '' || (rel !== '..' && !rel.startsWith(`..${sep}`) && !isAbsolute(rel));
+}
+
+/**
+ * realpath() of `path`, or of its nearest existing ancestor joined with the rest
+ */
+async function realpathOfExisting(path: string): Promise<string> {
+  try {
+    return await realpath(path);
+  } catch (error) {
+    const parent = dirname(path);
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT' || parent === path) throw error;
+    return join(await realpathOfExisting(parent), basename(path));
+  }
+}
+
+/**
+ * Resolve `path` against `root`, refusing anything that ends up outside it,
+ * whether through `..`, an absolute path or a symlink. The path need not exist yet.
+ */
+export async function resolveInside(root: string, path: string): Promise<string> {
+  const full = resolve(root, path);
+  const realRoot = await realpath(root);
+  if (!isInside(root, full) || !isInside(realRoot, await realpathOfExisting(full))) {
+    throw new Error(`${path} is outside ${root}`);
+  }
+  return full;
+}
+
+/**
+ * True for files that may be ingested: a known text extension and no
+ * dotfile or dot-directory in the path below `root` (.env, .git, .ssh, ...)
+ */
+function isIngestible(file: string, root: string): boolean {
+  const parts = toPosix(relative(root, file)).split('/');
+  return TEXT_EXTENSIONS.has(extname(file).toLowerCase()) && !parts.some((part) => part.startsWith('.'));
+}
+
+/**
+ * Collect files below `dir` that pass `accept`, stopping once `limit` are found.
+ * Symlinks are not followed.
+ */
+async function walk(dir: string, out: string[], limit: number, accept: (file: string) => boolean): Promise<void> {
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return;
+  }
+  entries.sort((a, b) => a.name.localeCompare(b.name));
+  for (const entry of entries) {
+    if (out.length >= limit) return;
+    const full = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRS.has(entry.name) && !entry.name.startsWith('.')) await walk(full, out, limit, accept);
+    } else if (entry.isFile() && accept(full)) {
+      out.push(full);
+    }
+  }
+}
+
+/**
+ * Resolve a file path or glob (relative to `root`) to absolute file paths.
+ * Only text files inside `root` are returned, at most `limit` of them.
+ */
+export async function collectFiles(pathOrGlob: string, root: string, limit: number): Promise<string[]> {
+  if (!hasGlob(pathOrGlob)) {
+    const full = await resolveInside(root, pathOrGlob);
+    const info = await stat(full);
+    if (info.isFile()) {
+      if (!isIngestible(full, root)) {
+        throw new Error(`${pathOrGlob} cannot be ingested: only text, Markdown, code and JSON files that are not dotfiles or inside dot-directories are accepted`);
+      }
+      return [full];
+    }
+    const files: string[] = [];
+    await walk(full, files, limit, (file) => isIngestible(file, root));
+    return files;
+  }
+
+  // Walk from the longest directory prefix that has no wildcards
+  const parts = toPosix(pathOrGlob).split('/');
+  const firstGlob = parts.findIndex(hasGlob);
+  const base = await resolveInside(root, parts.slice(0, firstGlob).join('/') || '.');
+  const matcher = globToRegExp(parts.slice(firstGlob).join('/'));
+
+  const files: string[] = [];
+  await walk(base, files, limit, (file) => isIngestible(file, root) && matcher.test(toPosix(relative(base, file))));
+  return files;
+}
+
+export class IngestManifest {
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly path: string) {}
+
+  async get(file: string): Promise<ManifestEntry | undefined> {
+    return (await this.load())[file];
+  }
+
+  async set(file: string, entry: ManifestEntry): Promise<void> {
+    await this.update((entries) => {
+      entries[file] = entry;
+    });
+  }
+
+  /**
+   * Record the artifact a queued ingest became once the queue delivered it
+   */
+  async delivered(queueId: string, artifactId: string | null): Promise<void> {
+    await this.update((entries) => {
+      const file = Object.keys(entries).find((key) => entries[key].queue_id === queueId);
+      if (file) entries[file] = { ...entries[file], artifact_id: artifactId, queue_id: null };
+    });
+  }
+
+  private async load(): Promise<Record<string, ManifestEntry>> {
+    try {
+      return JSON.parse(await readFile(this.path, 'utf8')) as Record<string, ManifestEntry>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      return {};
+    }
+  }
+
+  /**
+   * Read-modify-write the manifest, serialised within this process and across
+   * processes sharing the file
+   */
+  private async update(change: (entries: Record<string, ManifestEntry>) => void): Promise<void> {
+    this.writing = this.writing.catch(() => undefined).then(async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      const release = await acquireLock(`${this.path}.lock`, true);
+      if (!release) throw new Error(`Ingest manifest ${this.path} is locked by another process`);
+      try {
+        const entries = await this.load();
+        change(entries);
+        await writeFileAtomic(this.path, JSON.stringify(entries, null, 2));
+      } finally {
+        await release();
+      }
+    });
+    return this.writing;
+  }
+}
+
+/**
+ * Ingest files one by one, skipping unchanged ones and replacing the
+ * previous artifact of changed ones
+ */
+export async function ingestFiles(
+  files: string[],
+  root: string,
+  options: { apiUrl: string; force: boolean; manifest: IngestManifest; handlers: FileIngestHandlers }
+): Promise<FileIngestResult[]> {
+  const results: FileIngestResult[] = [];
+
+  for (const file of files) {
+    const rel = relative(root, file);
+    const name = toPosix(rel.startsWith('..') || isAbsolute(rel) ? file : rel);
+    const base = { path: file, name };
+
+    try {
+      const info = await stat(file);
+      if (info.size > MAX_FILE_BYTES) {
+        results.push({ ...base, status: 'skipped', detail: `larger than ${MAX_FILE_BYTES / 1024} KB` });
+        continue;
+      }
+
+      const buffer = await readFile(file);
+      if (buffer.includes(0)) {
+        results.push({ ...base, status: 'skipped', detail: 'binary file' });
+        continue;
+      }
+      const content = buffer.toString('utf8');
+      if (!content.trim()) {
+        results.push({ ...base, status: 'skipped', detail: 'empty file' });
+        continue;
+      }
+
+      const hash = createHash('sha256').update(buffer).digest('hex');
+      const previous = await options.manifest.get(file);
+      const known = previous && previous.api_url === options.apiUrl ? previous : undefined;
+
+      if (known && known.hash === hash && !options.force) {
+        results.push({ ...base, status: 'unchanged', artifactId: known.artifact_id || undefined });
+        continue;
+      }
+
+      const result = await options.handlers.ingest(content, name);
+      if (!result.success) {
+        results.push({ ...base, status: 'failed', detail: result.message });
+        continue;
+      }
+
+      // Replace the previous version only once the new one is stored (or queued)
+      if (known?.artifact_id) {
+        await options.handlers.remove(known.artifact_id).catch(() => undefined);
+      } else if (known?.queue_id && !(await options.handlers.cancelQueued(known.queue_id))) {
+        // Delivered by now but not yet reconciled: the manifest no longer knows its artifact
+        results.push({ ...base, status: 'failed', detail: 'the previous version is still being delivered from the offline queue; try again shortly' });
+        continue;
+      }
+
+      await options.manifest.set(file, {
+        hash,
+        name,
+        artifact_id: result.artifactId || null,
+        queue_id: result.queuedId || null,
+        api_url: options.apiUrl,
+        ingested_at: new Date().toISOString(),
+      });
+
+      results.push({
+        ...base,
+        status: result.queuedId ? 'queued' : known ? 'updated' : 'ingested',
+        artifactId: result.artifactId,
+        chunks: result.chunkCount,
+        detail: result.note,
+      });
+    } catch (error) {
+      results.push({ ...base, status: 'failed', detail: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  return results;
+}
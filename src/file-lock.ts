@@ -0,0 +1,75 @@
+/**
+ * Cross-process file locks
+ *
+ * Several server processes (one per stdio client) can share the files under
+ * ~/.memdata and a file:// store, so read-modify-write cycles on them take a
+ * lock file next to the data and replace it through a temp file of their own.
+ */
+
+import { open, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
+
+/** How long a change waits for another process to release the lock */
+const LOCK_WAIT_MS = 10_000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * True when a lock file was left behind by a process that no longer exists
+ */
+async function isStale(path: string): Promise<boolean> {
+  try {
+    const [owner, info] = await Promise.all([readFile(path, 'utf8'), stat(path)]);
+    const pid = Number(owner);
+    // Created but not yet written, or garbage
+    if (!Number.isInteger(pid) || pid <= 0) return Date.now() - info.mtimeMs > 5_000;
+    try {
+      process.kill(pid, 0);
+      return false;
+    } catch (error) {
+      return (error as NodeJS.ErrnoException).code === 'ESRCH';
+    }
+  } catch {
+    return false; // released in the meantime; try again
+  }
+}
+
+/**
+ * Take a cross-process lock by creating `path` exclusively. Returns the release
+ * function, or null if the lock is held elsewhere and `wait` is false (or the
+ * wait timed out).
+ */
+export async function acquireLock(path: string, wait: boolean): Promise<(() => Promise<void>) | null> {
+  const deadline = Date.now() + LOCK_WAIT_MS;
+  for (;;) {
+    try {
+      const handle = await open(path, 'wx');
+      await handle.writeFile(String(process.pid), 'utf8');
+      await handle.close();
+      return () => rm(path, { force: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+    if (await isStale(path)) {
+      // Rename first so that only one process breaks the lock
+      const broken = `${path}.${process.pid}.stale`;
+      await rename(path, broken).then(
+        () => rm(broken, { force: true }),
+        () => undefined
+      );
+      continue;
+    }
+    if (!wait || Date.now() > deadline) return null;
+    await sleep(25);
+  }
+}
+
+/**
+ * Replace `path` with `content` atomically, through a temp file unique to this process
+ */
+export async function writeFileAtomic(path: string, content: string): Promise<void> {
+  const tmp = `${path}.${process.pid}.tmp`;
+  await writeFile(tmp, content, 'utf8');
+  await rename(tmp, path);
+}
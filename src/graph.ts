@@ -0,0 +1,254 @@
+/**
+ * Entity graph
+ *
+ * The relationships endpoint only returns the direct co-occurrences of one
+ * entity. memdata_graph walks it breadth-first to expand several hops around
+ * an entity or to find a chain of co-occurrences connecting two entities, and
+ * renders the result as a Mermaid or Graphviz DOT diagram.
+ */
+
+export interface Neighbourhood {
+  /** Canonical name of the entity, as the API reports it */
+  name: string;
+  type: string | null;
+  neighbours: Array<{ name: string; type: string; strength: number }>;
+}
+
+/** Fetches the direct co-occurrences of an entity; throws if that fails */
+export type NeighbourFetcher = (entity: string) => Promise<Neighbourhood>;
+
+export interface GraphNode {
+  id: string;
+  name: string;
+  type: string | null;
+  /** Hops from the starting entity */
+  depth: number;
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  /** Co-occurrence count */
+  strength: number;
+}
+
+export interface Graph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  /** Entities whose relationships were fetched */
+  explored: number;
+  /** True when max_nodes cut the walk short */
+  truncated: boolean;
+}
+
+export interface GraphOptions {
+  /** Only follow entities of these types (the starting entity and path target are always included) */
+  types?: string[];
+  /** Ignore co-occurrences weaker than this */
+  minStrength?: number;
+  /** Stop adding entities once the graph has this many */
+  maxNodes: number;
+}
+
+export const DIAGRAM_FORMATS = ['mermaid', 'dot', 'none'] as const;
+
+export type DiagramFormat = (typeof DIAGRAM_FORMATS)[number];
+
+function nodeId(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Collects nodes and undirected edges, keyed case-insensitively by name
+ */
+class GraphBuilder {
+  readonly nodes = new Map<string, GraphNode>();
+  private edges = new Map<string, GraphEdge>();
+  explored = 0;
+  truncated = false;
+
+  constructor(private readonly options: GraphOptions) {}
+
+  addNode(name: string, type: string | null, depth: number): GraphNode | undefined {
+    const id = nodeId(name);
+    const existing = this.nodes.get(id);
+    if (existing) return existing;
+    if (this.nodes.size >= this.options.maxNodes) {
+      this.truncated = true;
+      return undefined;
+    }
+    const node = { id, name, type, depth };
+    this.nodes.set(id, node);
+    return node;
+  }
+
+  addEdge(a: GraphNode, b: GraphNode, strength: number): void {
+    if (a.id === b.id) return;
+    const [from, to] = a.id < b.id ? [a.id, b.id] : [b.id, a.id];
+    const key = `${from}\u0000${to}`;
+    const existing = this.edges.get(key);
+    if (!existing || existing.strength < strength) this.edges.set(key, { from, to, strength });
+  }
+
+  /**
+   * Neighbours of a fetched entity that pass the strength and type filters
+   */
+  follow(hood: Neighbourhood, target?: string): Neighbourhood['neighbours'] {
+    const types = this.options.types?.map((t) => t.toLowerCase());
+    return hood.neighbours.filter(
+      (n) =>
+        n.strength >= (this.options.minStrength ?? 0) &&
+        (!types?.length || types.includes(n.type.toLowerCase()) || nodeId(n.name) === target)
+    );
+  }
+
+  build(): Graph {
+    return {
+      nodes: [...this.nodes.values()],
+      edges: [...this.edges.values()],
+      explored: this.explored,
+      truncated: this.truncated,
+    };
+  }
+}
+
+/**
+ * Expand `depth` hops around an entity
+ */
+export async function expandGraph(entity: string, fetch: NeighbourFetcher, depth: number, options: GraphOptions): Promise<Graph> {
+  const builder = new GraphBuilder(options);
+  const root = await fetch(entity);
+  builder.explored++;
+  let frontier: Array<{ node: GraphNode; hood: Neighbourhood | null }> = [
+    { node: builder.addNode(root.name || entity, root.type, 0)!, hood: root },
+  ];
+
+  for (let hop = 1; hop <= depth && frontier.length; hop++) {
+    const next: typeof frontier = [];
+    for (const { node, hood } of frontier) {
+      const current = hood || (await fetch(node.name));
+      if (!hood) builder.explored++;
+      for (const neighbour of builder.follow(current)) {
+        const known = builder.nodes.has(nodeId(neighbour.name));
+        const child = builder.addNode(neighbour.name, neighbour.type, hop);
+        if (!child) continue;
+        builder.addEdge(node, child, neighbour.strength);
+        if (!known) next.push({ node: child, hood: null });
+      }
+    }
+    frontier = next;
+  }
+
+  const graph = builder.build();
+  graph.edges.sort((a, b) => b.strength - a.strength);
+  return graph;
+}
+
+/**
+ * Find the shortest chain of co-occurrences from one entity to another,
+ * at most `maxHops` long. The graph holds only the entities and edges on
+ * the path, in order; `path` is null when no connection was found.
+ */
+export async function findPath(
+  from: string,
+  to: string,
+  fetch: NeighbourFetcher,
+  maxHops: number,
+  options: GraphOptions
+): Promise<{ graph: Graph; path: string[] | null }> {
+  const target = nodeId(to);
+  const visited = new Map<string, { name: string; type: string | null; parent: string | null; strength: number }>();
+  let explored = 0;
+  let truncated = false;
+
+  const root = await fetch(from);
+  explored++;
+  const rootId = nodeId(root.name || from);
+  visited.set(rootId, { name: root.name || from, type: root.type, parent: null, strength: 0 });
+
+  let found: string | null = rootId === target || nodeId(from) === target ? rootId : null;
+  let frontier: Array<{ id: string; hood: Neighbourhood | null }> = [{ id: rootId, hood: root }];
+  const filter = new GraphBuilder(options);
+
+  for (let hop = 1; hop <= maxHops && frontier.length && !found; hop++) {
+    const next: typeof frontier = [];
+    for (const { id, hood } of frontier) {
+      // Every fetch is one API call, so the node budget bounds the search
+      if (!hood && explored >= options.maxNodes) {
+        truncated = true;
+        break;
+      }
+      const current = hood || (await fetch(visited.get(id)!.name));
+      if (!hood) explored++;
+      for (const neighbour of filter.follow(current, target)) {
+        const neighbourId = nodeId(neighbour.name);
+        if (visited.has(neighbourId)) continue;
+        visited.set(neighbourId, { name: neighbour.name, type: neighbour.type, parent: id, strength: neighbour.strength });
+        if (neighbourId === target) {
+          found = neighbourId;
+          break;
+        }
+        next.push({ id: neighbourId, hood: null });
+      }
+      if (found) break;
+    }
+    frontier = next;
+  }
+
+  const builder = new GraphBuilder({ ...options, maxNodes: Infinity });
+  builder.explored = explored;
+  builder.truncated = truncated && !found;
+  if (!found) return { graph: builder.build(), path: null };
+
+  const chain: string[] = [];
+  for (let id: string | null = found; id; id = visited.get(id)!.parent) chain.unshift(id);
+  let previous: GraphNode | undefined;
+  chain.forEach((id, depth) => {
+    const entry = visited.get(id)!;
+    const node = builder.addNode(entry.name, entry.type, depth)!;
+    if (previous) builder.addEdge(previous, node, entry.strength);
+    previous = node;
+  });
+
+  return { graph: builder.build(), path: chain.map((id) => visited.get(id)!.name) };
+}
+
+function mermaidLabel(node: GraphNode): string {
+  const text = node.type ? `${node.name} (${node.type})` : node.name;
+  return text.replace(/"/g, '#quot;');
+}
+
+function dotEscape(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+/**
+ * Render a graph as a Mermaid flowchart; the starting entity is bold
+ */
+export function toMermaid(graph: Graph): string {
+  const ids = new Map(graph.nodes.map((node, i) => [node.id, `n${i}`]));
+  const lines = ['graph LR'];
+  graph.nodes.forEach((node) => lines.push(`  ${ids.get(node.id)}["${mermaidLabel(node)}"]`));
+  graph.edges.forEach((edge) => lines.push(`  ${ids.get(edge.from)} ---|${edge.strength}| ${ids.get(edge.to)}`));
+  graph.nodes.filter((node) => node.depth === 0).forEach((node) => lines.push(`  style ${ids.get(node.id)} font-weight:bold`));
+  return lines.join('\n');
+}
+
+/**
+ * Render a graph as Graphviz DOT; edge width grows with co-occurrence strength
+ */
+export function toDot(graph: Graph): string {
+  const max = Math.max(1, ...graph.edges.map((edge) => edge.strength));
+  const names = new Map(graph.nodes.map((node) => [node.id, node.name]));
+  const lines = ['graph memdata {', '  node [shape=box];'];
+  graph.nodes.forEach((node) => {
+    const label = node.type ? `${dotEscape(node.name)}\\n${dotEscape(node.type)}` : dotEscape(node.name);
+    lines.push(`  "${dotEscape(node.name)}" [label="${label}"${node.depth === 0 ? ', style=bold' : ''}];`);
+  });
+  graph.edges.forEach((edge) => {
+    const width = (1 + (edge.strength / max) * 3).toFixed(1);
+    lines.push(`  "${dotEscape(names.get(edge.from)!)}" -- "${dotEscape(names.get(edge.to)!)}" [label="${edge.strength}", penwidth=${width}];`);
+  });
+  lines.push('}');
+  return lines.join('\n');
+}
@@ -0,0 +1,214 @@
+/**
+ * Streamable HTTP transport
+ *
+ * Serves MemData over the MCP Streamable HTTP transport so a single
+ * long-running server can be shared by several agents. Each MCP session
+ * gets its own McpServer instance and transport.
+ */
+
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { createServer as createHttpServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+  /** Bearer token clients must send; no authentication when unset */
+  token?: string;
+  /** Close sessions that have sent no request for this long (default: 30 minutes) */
+  sessionIdleMs?: number;
+  /** Host names clients may use besides the loopback names and `host` itself */
+  allowedHosts?: string[];
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+// Listening on every interface says nothing about the names clients use
+const WILDCARD_HOSTS = ['0.0.0.0', '::'];
+
+/**
+ * Host name of a Host or Origin header value, lower-cased; null if it is not one
+ */
+function hostName(value: string, withScheme: boolean): string | null {
+  try {
+    return new URL(withScheme ? value : `http://${value}`).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Guard against DNS rebinding: a web page whose name resolves to this machine
+ * sends its own name as Host (and Origin), so only requests addressed to a
+ * known name, and from no other web origin, are served
+ */
+function isAllowedOrigin(req: IncomingMessage, allowed: Set<string>): boolean {
+  const host = req.headers.host ? hostName(req.headers.host, false) : null;
+  if (!host || !allowed.has(host)) return false;
+  const origin = req.headers.origin;
+  if (origin === undefined) return true;
+  const originHost = hostName(origin, true);
+  return originHost !== null && allowed.has(originHost);
+}
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization || '';
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(header);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new Error('Request body too large');
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString('utf8');
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Start an HTTP server exposing MCP at /mcp
+ */
+export async function startHttpServer(
+  createServer: () => McpServer,
+  options: HttpServerOptions
+): Promise<Server> {
+  const transports = new Map<string, StreamableHTTPServerTransport>();
+  // Last request per session, so sessions of clients that vanished without DELETE can be reaped
+  const lastSeen = new Map<string, number>();
+  const idleMs = options.sessionIdleMs ?? DEFAULT_SESSION_IDLE_MS;
+  const allowedHosts = new Set(
+    [...LOOPBACK_HOSTS, ...(WILDCARD_HOSTS.includes(options.host) ? [] : [options.host]), ...(options.allowedHosts || [])]
+      .map((name) => hostName(name, false))
+      .filter((name) => name !== null)
+  );
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (url.pathname === '/health') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok', sessions: transports.size }));
+      return;
+    }
+
+    if (url.pathname !== '/mcp') {
+      res.writeHead(404).end();
+      return;
+    }
+
+    if (!isAllowedOrigin(req, allowedHosts)) {
+      sendJsonRpcError(res, 403, 'Host or Origin not allowed (see MEMDATA_HTTP_ALLOWED_HOSTS)');
+      return;
+    }
+
+    if (options.token && !isAuthorized(req, options.token)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJsonRpcError(res, 401, 'Unauthorized');
+      return;
+    }
+
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const existing = sessionId ? transports.get(sessionId) : undefined;
+    if (existing && sessionId) lastSeen.set(sessionId, Date.now());
+
+    if (req.method === 'POST') {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        sendJsonRpcError(res, 400, error instanceof Error ? error.message : 'Invalid request body');
+        return;
+      }
+
+      if (existing) {
+        await existing.handleRequest(req, res, body);
+        return;
+      }
+
+      if (sessionId || !isInitializeRequest(body)) {
+        sendJsonRpcError(res, sessionId ? 404 : 400, sessionId ? 'Session not found' : 'No valid session ID provided');
+        return;
+      }
+
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          transports.set(id, transport);
+          lastSeen.set(id, Date.now());
+        },
+      });
+      transport.onclose = () => {
+        if (!transport.sessionId) return;
+        transports.delete(transport.sessionId);
+        lastSeen.delete(transport.sessionId);
+      };
+
+      const server = createServer();
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+      // Initialize was rejected: no session will ever reach this server again
+      if (!transport.sessionId) await server.close();
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (!existing) {
+        sendJsonRpcError(res, sessionId ? 404 : 400, sessionId ? 'Session not found' : 'No valid session ID provided');
+        return;
+      }
+      await existing.handleRequest(req, res);
+      return;
+    }
+
+    res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error('HTTP request failed:', error);
+      if (!res.headersSent) sendJsonRpcError(res, 500, 'Internal server error');
+      else res.end();
+    });
+  });
+
+  const reaper = setInterval(() => {
+    const cutoff = Date.now() - idleMs;
+    for (const [id, seen] of lastSeen) {
+      if (seen < cutoff) transports.get(id)?.close().catch(() => undefined);
+    }
+  }, Math.min(idleMs, 60_000));
+  reaper.unref();
+
+  httpServer.on('close', () => {
+    clearInterval(reaper);
+    for (const transport of transports.values()) {
+      transport.close().catch(() => undefined);
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  return httpServer;
+}
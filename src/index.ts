@@ -3,26 +3,197 @@
  * MemData MCP Server
  *
  * A thin client that exposes memory ingestion and query tools via MCP.
- * Connects to the hosted MemData API (memdata.ai).
+ * Connects to the hosted MemData API (memdata.ai), or to a local on-disk
+ * store when MEMDATA_API_URL is a file:// URL.
  *
  * Usage:
- *   npx memdata-mcp
+ *   npx memdata-mcp [--profile name]             (stdio)
+ *   npx memdata-mcp --http 3000 [--host 0.0.0.0] (Streamable HTTP at /mcp)
+ *   npx memdata-mcp export [archive.jsonl|archive.md] [--overwrite]
+ *   npx memdata-mcp import <archive>
  *
  * Environment Variables:
- *   MEMDATA_API_KEY - Your MemData API key (required, starts with md_)
- *   MEMDATA_API_URL - API URL (optional, defaults to https://memdata.ai)
+ *   MEMDATA_API_KEY - Your MemData API key (required for the hosted API, starts with md_)
+ *   MEMDATA_API_URL - API URL (optional, defaults to https://memdata.ai).
+ *                     Use file:///path/to/store.db for offline local storage.
+ *   MEMDATA_PROFILE - Profile from the config file to use (optional, or --profile)
+ *   MEMDATA_CONFIG_PATH - Profiles config file (optional, defaults to ~/.memdata/config.json; a project
+ *                         .memdata.json is read too)
+ *   MEMDATA_NAMESPACE - Project namespace (optional, derived from the git remote or
+ *                       working directory by default; "none" disables namespacing)
+ *   MEMDATA_TIMEOUT_MS - Per-request timeout in milliseconds (optional, defaults to 30000)
+ *   MEMDATA_MAX_RETRIES - Retries for failed requests (optional, defaults to 3)
+ *   MEMDATA_QUEUE_PATH - Offline write queue file (optional, defaults to ~/.memdata/queue.json;
+ *                       with a profile, ~/.memdata/profiles/<name>/queue.json)
+ *   MEMDATA_MANIFEST_PATH - File ingest hash manifest (optional, defaults to ~/.memdata/manifest.json;
+ *                          with a profile, ~/.memdata/profiles/<name>/manifest.json)
+ *   MEMDATA_HISTORY_PATH - Version history for upserted artifacts (optional, defaults to ~/.memdata/history.json;
+ *                         with a profile, ~/.memdata/profiles/<name>/history.json)
+ *   MEMDATA_REDACTION_PATH - Redaction rules applied before writes (optional, defaults to ~/.memdata/redaction.json)
+ *   MEMDATA_HTTP_TOKEN - Bearer token required by --http mode (optional; preferred over --token,
+ *                        which other users can see in the process list)
+ *   MEMDATA_HTTP_SESSION_IDLE_MS - Close --http sessions idle this long (optional, defaults to 1800000)
+ *   MEMDATA_HTTP_ALLOWED_HOSTS - Comma-separated host names --http clients may connect by besides
+ *                                localhost and --host (optional; other Host or Origin headers are refused)
+ *   MEMDATA_FORMAT - Response style for query, session start and status: markdown (default), compact or json
+ *   MEMDATA_LEGEND - Set to false to drop the match quality legend from query results
+ *   MEMDATA_EMOJI - Set to false to drop emoji from rendered responses
+ *   MEMDATA_CACHE_TTL_MS - How long query, list and relationship results are cached (optional, defaults to 60000; 0 disables)
+ *   MEMDATA_CACHE_SIZE - Maximum cached results (optional, defaults to 100)
+ *   MEMDATA_TIMEZONE - IANA time zone for date expressions like "last week" (optional, defaults to the system zone)
+ *   MEMDATA_AUDIT_LOG - Set to true (audit.jsonl next to the queue) or a file path to log every tool call (optional, off by default)
+ *   MEMDATA_AUDIT_MAX_MB - Size at which the audit log rotates (optional, defaults to 10)
+ *   MEMDATA_AUDIT_MAX_FILES - Rotated audit logs kept (optional, defaults to 5)
  */
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { createHash, randomBytes } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
 import { z } from 'zod';
+import { ApiClient, ApiError } from './api-client.js';
+import { AuditLog, sanitizeArgs } from './audit.js';
+import { ResponseCache } from './cache.js';
+import { loadProfileConfig, maskApiKey, PROJECT_CONFIG_FILE, ProfileConfig, ProfileSource, profileEnv, selectProfile } from './config.js';
+import { resolveDateRange, resolveTimeZone } from './dates.js';
+import {
+  ARCHIVE_VERSION,
+  ArchiveFormat,
+  ArchiveHeader,
+  ArchiveIdentity,
+  ArchiveRecord,
+  ArchiveSession,
+  checkArtifact,
+  formatForPath,
+  parseArchive,
+  serializeArchive,
+} from './archive.js';
+import { collectFiles, FileIngestResult, IngestManifest, ingestFiles, resolveInside } from './file-ingest.js';
+import { resolveNamespace } from './namespace.js';
+import { startHttpServer } from './http-server.js';
+import { DIAGRAM_FORMATS, expandGraph, findPath, Graph, Neighbourhood, toDot, toMermaid } from './graph.js';
+import { affectedArtifacts, SessionJournal, ToolCall, toolCallObserver } from './journal.js';
+import { LocalStore } from './local-store.js';
+import {
+  formatTags,
+  RENDER_STYLES,
+  RenderOptions,
+  renderOptionsFromEnv,
+  renderQuery,
+  renderSessionStart,
+  renderStatus,
+  RenderStyle,
+  renderTimerangeQuery,
+} from './render.js';
+import { describeRedactions, RedactionError, RedactionFinding, Redactor } from './redact.js';
+import { candidateCount, rerank } from './rerank.js';
+import {
+  auditOutput,
+  deleteManyOutput,
+  deleteOutput,
+  exportOutput,
+  fileIngestOutput,
+  graphOutput,
+  historyOutput,
+  importOutput,
+  ingestOutput,
+  insightsOutput,
+  listOutput,
+  NARRATIVE_TYPES,
+  profileOutput,
+  queryOutput,
+  queueOutput,
+  relationshipsOutput,
+  sessionEndOutput,
+  sessionHistoryOutput,
+  sessionStartOutput,
+  setIdentityOutput,
+  statusOutput,
+  timerangeQueryOutput,
+} from './schemas.js';
+import { lineDiff, VersionHistory } from './versions.js';
+import { WriteQueue, WriteSender } from './write-queue.js';
 
-// Configuration
-const MEMDATA_API_KEY = process.env.MEMDATA_API_KEY;
-const MEMDATA_API_URL = process.env.MEMDATA_API_URL || 'https://memdata.ai';
+/**
+ * Parse a numeric setting; invalid values are reported and ignored, so the default applies
+ */
+function numberSetting(name: string, value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const number = Number(value);
+  if (Number.isFinite(number) && number >= 0) return number;
+  console.error(`Warning: ignoring ${name}=${value} (expected a non-negative number)`);
+  return undefined;
+}
+
+// Configuration: MEMDATA_* environment variables, overlaid with the selected profile
+const CONFIG_PATH = process.env.MEMDATA_CONFIG_PATH || join(homedir(), '.memdata', 'config.json');
+
+let profileConfig: ProfileConfig;
+let startupProfile: { name: string; source: ProfileSource } | null;
+try {
+  profileConfig = loadProfileConfig(CONFIG_PATH, process.cwd());
+  startupProfile = selectProfile(profileConfig, getArg('profile'), process.env.MEMDATA_PROFILE);
+} catch (error) {
+  console.error(`Error: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
+
+// Active profile; null when running from environment variables alone
+let activeProfile: { name: string; source: ProfileSource } | null = null;
+let MEMDATA_API_KEY: string | undefined;
+let MEMDATA_API_URL: string;
+// A file:// URL selects the offline local store instead of the hosted API
+let localStore: LocalStore | null;
+// Namespace that scopes memories to the current project (null = shared pool)
+let NAMESPACE: string | null;
+let NAMESPACE_SOURCE: string;
+let apiClient: ApiClient;
+// Default response style; tools that render results also take a per-call format
+let RENDER_OPTIONS: RenderOptions;
+// Time zone that date expressions in memdata_query_timerange are resolved in
+let TIME_ZONE: string;
 
-if (!MEMDATA_API_KEY) {
-  console.error('Error: MEMDATA_API_KEY environment variable is required');
+/**
+ * Make `profile` (null: environment variables only) the active configuration.
+ * Returns why it cannot be used, changing nothing, if it has neither an API
+ * key nor a local store.
+ */
+function applyProfile(profile: { name: string; source: ProfileSource } | null): string | null {
+  const overrides = profile ? profileEnv(profileConfig.profiles[profile.name]) : {};
+  const env = { ...process.env, ...overrides };
+  const apiUrl = env.MEMDATA_API_URL || 'https://memdata.ai';
+  const local = apiUrl.startsWith('file:');
+
+  if (!env.MEMDATA_API_KEY && !local) {
+    return profile
+      ? `Profile "${profile.name}" has no api_key (set one in ${CONFIG_PATH} or MEMDATA_API_KEY)`
+      : 'MEMDATA_API_KEY environment variable is required';
+  }
+
+  const namespace = resolveNamespace(env.MEMDATA_NAMESPACE, process.cwd());
+  activeProfile = profile;
+  MEMDATA_API_KEY = env.MEMDATA_API_KEY;
+  MEMDATA_API_URL = apiUrl;
+  localStore = local ? new LocalStore(fileURLToPath(apiUrl)) : null;
+  NAMESPACE = namespace.namespace;
+  NAMESPACE_SOURCE = profile && overrides.MEMDATA_NAMESPACE !== undefined ? `profile ${profile.name}` : namespace.source;
+  apiClient = new ApiClient({
+    baseUrl: apiUrl,
+    apiKey: env.MEMDATA_API_KEY,
+    timeoutMs: numberSetting('MEMDATA_TIMEOUT_MS', env.MEMDATA_TIMEOUT_MS),
+    maxRetries: numberSetting('MEMDATA_MAX_RETRIES', env.MEMDATA_MAX_RETRIES),
+  });
+  RENDER_OPTIONS = renderOptionsFromEnv(env);
+  TIME_ZONE = resolveTimeZone(env.MEMDATA_TIMEZONE);
+  return null;
+}
+
+const startupError = applyProfile(startupProfile);
+if (startupError) {
+  console.error(`Error: ${startupError}`);
   console.error('');
   console.error('Get your API key at: https://memdata.ai/dashboard/api-keys');
   console.error('');
@@ -38,88 +209,431 @@ if (!MEMDATA_API_KEY) {
       }
     }
   }, null, 2));
+  console.error('');
+  console.error(`Or define profiles in ${CONFIG_PATH} (see the README).`);
   process.exit(1);
 }
 
 /**
- * Call the MemData API (POST)
+ * Directory for the active profile's machine-local state: ~/.memdata without
+ * a profile, ~/.memdata/profiles/<name> with one
  */
-async function callAPI(endpoint: string, body: Record<string, unknown>): Promise<unknown> {
-  const response = await fetch(`${MEMDATA_API_URL}${endpoint}`, {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${MEMDATA_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(body),
-  });
+function stateDir(): string {
+  const base = join(homedir(), '.memdata');
+  return activeProfile ? join(base, 'profiles', encodeURIComponent(activeProfile.name)) : base;
+}
+
+// Secrets and PII are masked (or the write blocked) before anything is sent
+const redactor = new Redactor(
+  process.env.MEMDATA_REDACTION_PATH || join(homedir(), '.memdata', 'redaction.json')
+);
+
+/**
+ * Audit log file from MEMDATA_AUDIT_LOG: true/1 for the default location, a path, or null when off
+ */
+function auditLogPath(setting: string | undefined): string | null {
+  const value = setting?.trim().toLowerCase();
+  if (!value || ['0', 'false', 'off', 'no'].includes(value)) return null;
+  if (['1', 'true', 'on', 'yes'].includes(value)) return join(stateDir(), 'audit.jsonl');
+  return resolve(setting!.trim());
+}
+
+function renderOptions(format?: RenderStyle): RenderOptions {
+  return format ? { ...RENDER_OPTIONS, style: format } : RENDER_OPTIONS;
+}
+
+// Upper bound on files per memdata_ingest_file / memdata_ingest_dir call
+const MAX_INGEST_FILES = 500;
+
+// How often queued offline writes are retried
+const QUEUE_RETRY_INTERVAL_MS = 60_000;
+
+/**
+ * True when an error means the API could not be reached (worth queueing and retrying later)
+ */
+function isUnavailable(error: unknown): boolean {
+  return error instanceof ApiError && error.unavailable;
+}
+
+// Read results are cached briefly; every write clears the cache
+const responseCache = new ResponseCache(
+  numberSetting('MEMDATA_CACHE_SIZE', process.env.MEMDATA_CACHE_SIZE),
+  numberSetting('MEMDATA_CACHE_TTL_MS', process.env.MEMDATA_CACHE_TTL_MS)
+);
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`API error (${response.status}): ${error}`);
+/**
+ * Deliver a queued write, then do what its tool would have done after storing it
+ */
+const sendQueuedWrite: WriteSender = async (endpoint, body, item) => {
+  const name = String(body.sourceName);
+  const namespace = typeof body.namespace === 'string' ? body.namespace : null;
+  const previous = item.kind === 'upsert' ? item.replaces ?? (await findArtifactsByName(name, namespace)).map((a) => a.id) : [];
+
+  const result = (await callAPI(endpoint, body)) as { success?: boolean; artifact_id?: string };
+  if (item.kind === 'ingest' && result.success) {
+    // A file ingest that was queued now has an artifact its next version can replace
+    await ingestManifest
+      .delivered(item.id, result.artifact_id ?? null)
+      .catch((error) => console.error('Failed to update the ingest manifest:', error));
+  }
+  if (item.kind === 'upsert' && result.success) {
+    const { notReplaced } = await retireVersions(namespace, name, previous);
+    for (const { artifact_id, error } of notReplaced) {
+      console.error(`Queued upsert of ${name}: could not replace ${artifact_id}: ${error}`);
+    }
   }
+  return result;
+};
+
+// Machine-local state of the active profile (see stateDir), so that version
+// history, queued writes, the ingest manifest and the audit log of one account
+// never point at another account's artifacts. Paths set in the environment are
+// used as they are, for every profile.
+let versionHistory: VersionHistory;
+let ingestManifest: IngestManifest;
+let writeQueue: WriteQueue;
+// Opt-in log of every tool call, for working out afterwards who changed what
+let auditLog: AuditLog | null;
 
-  return response.json();
+/**
+ * Open the state files of the active profile. Call again after switching.
+ */
+function openProfileState(): void {
+  const dir = stateDir();
+  versionHistory = new VersionHistory(process.env.MEMDATA_HISTORY_PATH || join(dir, 'history.json'));
+  ingestManifest = new IngestManifest(process.env.MEMDATA_MANIFEST_PATH || join(dir, 'manifest.json'));
+  writeQueue = new WriteQueue(process.env.MEMDATA_QUEUE_PATH || join(dir, 'queue.json'), sendQueuedWrite, isUnavailable);
+  const auditPath = auditLogPath(process.env.MEMDATA_AUDIT_LOG);
+  auditLog = auditPath
+    ? new AuditLog(
+        auditPath,
+        (numberSetting('MEMDATA_AUDIT_MAX_MB', process.env.MEMDATA_AUDIT_MAX_MB) ?? 10) * 1024 * 1024,
+        numberSetting('MEMDATA_AUDIT_MAX_FILES', process.env.MEMDATA_AUDIT_MAX_FILES) ?? 5
+      )
+    : null;
+}
+
+openProfileState();
+
+/**
+ * Call the MemData API (POST)
+ */
+async function callAPI(
+  endpoint: string,
+  body: Record<string, unknown>,
+  options: { idempotent?: boolean } = {}
+): Promise<unknown> {
+  const request = localStore
+    ? localStore.request('POST', endpoint, body)
+    : apiClient.request('POST', endpoint, { body, idempotent: options.idempotent });
+
+  // Only reads are marked idempotent; any other POST may change what they return
+  return options.idempotent ? request : request.finally(() => responseCache.clear());
 }
 
 /**
  * Call the MemData API (GET)
  */
 async function callAPIGet(endpoint: string): Promise<unknown> {
-  const response = await fetch(`${MEMDATA_API_URL}${endpoint}`, {
-    method: 'GET',
-    headers: {
-      Authorization: `Bearer ${MEMDATA_API_KEY}`,
-    },
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`API error (${response.status}): ${error}`);
-  }
+  if (localStore) return localStore.request('GET', endpoint);
 
-  return response.json();
+  return apiClient.request('GET', endpoint);
 }
 
 /**
  * Call the MemData API (DELETE)
  */
 async function callAPIDelete(endpoint: string): Promise<unknown> {
-  const response = await fetch(`${MEMDATA_API_URL}${endpoint}`, {
-    method: 'DELETE',
-    headers: {
-      Authorization: `Bearer ${MEMDATA_API_KEY}`,
-    },
-  });
+  const request = localStore ? localStore.request('DELETE', endpoint) : apiClient.request('DELETE', endpoint);
+
+  return request.finally(() => responseCache.clear());
+}
+
+/**
+ * Tag filters are sent to the API comma-separated, so a tag cannot contain one
+ */
+const tagSchema = z.string().refine((tag) => !tag.includes(','), 'Tags cannot contain commas');
+
+/**
+ * Tags are matched case-insensitively, so store them trimmed and lowercased
+ */
+function normalizeTags(tags?: string[]): string[] {
+  return [...new Set((tags || []).map((t) => t.trim().toLowerCase()).filter(Boolean))];
+}
+
+/**
+ * `project` limits reads to the current namespace (plus unscoped memories); `all` searches every namespace
+ */
+type Scope = 'project' | 'all';
+
+/**
+ * Namespace to send for a scope, or undefined for no namespace filter
+ */
+function scopedNamespace(scope: Scope = 'project'): string | undefined {
+  return scope === 'all' ? undefined : NAMESPACE ?? undefined;
+}
+
+/**
+ * Namespace query string for GET and DELETE endpoints ('' when unscoped)
+ */
+function namespaceQuery(scope: Scope = 'project'): string {
+  const namespace = scopedNamespace(scope);
+  return namespace ? `?namespace=${encodeURIComponent(namespace)}` : '';
+}
+
+/**
+ * Tag, metadata and namespace filters shared by query and list.
+ * An artifact matches when it has all the tags and every metadata key has the given value.
+ */
+interface MemoryFilters {
+  tags?: string[];
+  metadata?: Record<string, unknown>;
+  scope?: Scope;
+  /** Also return past session handoffs (always the case when filtering by SESSION_TAG) */
+  includeSessions?: boolean;
+}
+
+/** Tag that marks the artifacts holding past session handoffs */
+const SESSION_TAG = 'session-handoff';
+
+/**
+ * Session handoffs are kept out of list, query and bulk delete results unless
+ * the caller asks for them, so they do not crowd out actual memories
+ */
+function hidesSessions(filters: MemoryFilters): boolean {
+  return !filters.includeSessions && !normalizeTags(filters.tags).includes(SESSION_TAG);
+}
+
+function isSessionRecord(item: { name?: string; source?: string; tags: string[] }): boolean {
+  return item.tags.includes(SESSION_TAG) || (item.name ?? item.source ?? '').startsWith(`${SESSION_TAG}/`);
+}
+
+function addFilters(body: Record<string, unknown>, filters: MemoryFilters): void {
+  const tags = normalizeTags(filters.tags);
+  if (tags.length) body.tags = tags;
+  if (filters.metadata && Object.keys(filters.metadata).length) body.metadata = filters.metadata;
+  const namespace = scopedNamespace(filters.scope);
+  if (namespace) body.namespace = namespace;
+}
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`API error (${response.status}): ${error}`);
+/**
+ * Redact the fields of a write, turning a blocked write or a broken rules
+ * file into a failure result
+ */
+async function redactFields<T>(
+  fields: T
+): Promise<{ success: true; value: T; redactions: RedactionFinding[] } | { success: false; redactions: RedactionFinding[]; message: string }> {
+  try {
+    const { value, findings } = await redactor.redact(fields);
+    return { success: true, value, redactions: findings };
+  } catch (error) {
+    return {
+      success: false,
+      redactions: error instanceof RedactionError ? error.findings : [],
+      message: error instanceof Error ? error.message : 'Unknown error',
+    };
   }
+}
 
-  return response.json();
+/**
+ * Response line listing previous versions an upsert could not delete ('' when there are none)
+ */
+function notReplacedNote(notReplaced: Array<{ artifact_id: string; error: string }>): string {
+  return notReplaced
+    .map((n) => `\n- ⚠️ Previous version ${n.artifact_id} could not be deleted (${n.error}); it is still stored`)
+    .join('');
+}
+
+/**
+ * Response line listing what was redacted ('' when nothing was)
+ */
+function redactionNote(redactions: RedactionFinding[]): string {
+  return redactions.length ? `\n- 🔒 Redacted: ${describeRedactions(redactions)}` : '';
 }
 
 /**
  * Ingest text content into memory
+ *
+ * Content and metadata are redacted first. If the API is unreachable the
+ * write is saved to the offline queue instead.
  */
 async function ingestContent(
   content: string,
-  name: string
-): Promise<{ success: boolean; artifactId?: string; chunkCount?: number; message?: string }> {
-  const result = (await callAPI('/api/memdata/ingest', {
-    content,
-    sourceName: name,
-  })) as { success: boolean; artifact_id?: string; chunk_count?: number; error?: string };
+  name: string,
+  /**
+   * namespace: null stores the memory without one; undefined uses the current namespace.
+   * upsert: queue it as an upsert replacing these artifacts (null: whatever has its name on delivery).
+   */
+  options: {
+    createdAt?: string;
+    tags?: string[];
+    metadata?: Record<string, unknown>;
+    namespace?: string | null;
+    upsert?: { replaces: string[] | null };
+  } = {}
+): Promise<{
+  success: boolean;
+  artifactId?: string;
+  chunkCount?: number;
+  queuedId?: string;
+  redactions: RedactionFinding[];
+  message?: string;
+}> {
+  const redacted = await redactFields({ content, metadata: options.metadata });
+  if (!redacted.success) return redacted;
+  const { content: text, metadata } = redacted.value;
+  const { redactions } = redacted;
+
+  const body: Record<string, unknown> = { content: text, sourceName: name };
+  const namespace = options.namespace === undefined ? NAMESPACE : options.namespace;
+  if (namespace) body.namespace = namespace;
+  if (options.createdAt) body.created_at = options.createdAt;
+  const tags = normalizeTags(options.tags);
+  if (tags.length) body.tags = tags;
+  if (metadata && Object.keys(metadata).length) body.metadata = metadata;
+
+  let result: { success: boolean; artifact_id?: string; chunk_count?: number; error?: string };
+  try {
+    result = (await callAPI('/api/memdata/ingest', body)) as typeof result;
+  } catch (error) {
+    if (!isUnavailable(error)) throw error;
+    const queued = options.upsert
+      ? await writeQueue.enqueue('upsert', name, '/api/memdata/ingest', body, options.upsert.replaces)
+      : await writeQueue.enqueue('ingest', name, '/api/memdata/ingest', body);
+    return { success: true, queuedId: queued.id, redactions, message: (error as Error).message };
+  }
 
   if (!result.success) {
-    return { success: false, message: result.error || 'Unknown error' };
+    return { success: false, redactions, message: result.error || 'Unknown error' };
   }
 
   return {
     success: true,
     artifactId: result.artifact_id,
     chunkCount: result.chunk_count,
+    redactions,
+  };
+}
+
+/**
+ * Find the current artifacts with exactly this source name in a namespace
+ * (default: the current one)
+ */
+async function findArtifactsByName(name: string, namespace: string | null = NAMESPACE): Promise<Array<{ id: string; date: string }>> {
+  const found: Array<{ id: string; date: string }> = [];
+  for await (const page of artifactPages({ namePrefix: name, sort: 'oldest', namespace })) {
+    found.push(...page.filter((a) => a.name === name));
+  }
+  return found;
+}
+
+/**
+ * Save replaced artifacts to the version history, then delete them. An
+ * artifact that cannot be deleted is taken out of the history again, and one
+ * whose history entry cannot be written is not deleted.
+ */
+async function retireVersions(
+  namespace: string | null,
+  name: string,
+  ids: string[]
+): Promise<{ replaced: number[]; notReplaced: Array<{ artifact_id: string; error: string }> }> {
+  const replaced: number[] = [];
+  const notReplaced: Array<{ artifact_id: string; error: string }> = [];
+  for (const id of ids) {
+    try {
+      const artifact = await getArtifact(id, 'all');
+      if (!artifact.success) throw new Error(artifact.message);
+      const version = await versionHistory.add(MEMDATA_API_URL, namespace, name, {
+        artifact_id: id,
+        text: artifact.artifact.text,
+        tags: artifact.artifact.tags,
+        metadata: artifact.artifact.metadata,
+        created_at: artifact.artifact.createdAt,
+        replaced_at: new Date().toISOString(),
+      });
+      const deleted = await deleteArtifact(id, 'all').catch((error: unknown) => ({
+        success: false,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      }));
+      if (!deleted.success) {
+        await versionHistory
+          .remove(MEMDATA_API_URL, namespace, name, version)
+          .catch((error) => console.error(`Failed to take v${version} of ${name} out of the version history:`, error));
+        throw new Error(deleted.message || 'Unknown error');
+      }
+      replaced.push(version);
+    } catch (error) {
+      notReplaced.push({ artifact_id: id, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+  return { replaced, notReplaced };
+}
+
+/**
+ * Ingest content, replacing any artifact with the same source name. Replaced
+ * artifacts are saved to the version history once deleted. If the API is
+ * unreachable the write is queued as an upsert and replaces them on delivery.
+ */
+async function upsertContent(
+  content: string,
+  name: string,
+  options: { tags?: string[]; metadata?: Record<string, unknown> } = {}
+): Promise<{
+  success: boolean;
+  artifactId?: string;
+  chunkCount?: number;
+  queuedId?: string;
+  redactions: RedactionFinding[];
+  replaced: number[];
+  notReplaced: Array<{ artifact_id: string; error: string }>;
+  message?: string;
+}> {
+  let previous: string[] | null;
+  try {
+    previous = (await findArtifactsByName(name)).map((a) => a.id);
+  } catch (error) {
+    if (!isUnavailable(error)) throw error;
+    previous = null;
+  }
+
+  const result = await ingestContent(content, name, { ...options, upsert: { replaces: previous } });
+  if (!result.success || result.queuedId) {
+    return { ...result, replaced: [], notReplaced: [] };
+  }
+
+  previous ??= (await findArtifactsByName(name)).map((a) => a.id).filter((id) => id !== result.artifactId);
+  return { ...result, ...(await retireVersions(NAMESPACE, name, previous)) };
+}
+
+/**
+ * A search hit, as returned by memdata_query and memdata_query_timerange
+ */
+interface MemoryResult {
+  text: string;
+  source: string;
+  score: number;
+  date: string | null;
+  chunk_id: string | null;
+  tags: string[];
+}
+
+interface ApiQueryResult {
+  chunk_id?: string;
+  chunk_text: string;
+  source_name: string;
+  similarity_score: number;
+  created_at?: string;
+  tags?: string[];
+}
+
+function toMemoryResult(r: ApiQueryResult): MemoryResult {
+  return {
+    text: r.chunk_text,
+    source: r.source_name,
+    score: Math.round(r.similarity_score * 1000) / 1000,
+    date: r.created_at ? r.created_at.split('T')[0] : null,
+    chunk_id: r.chunk_id ?? null,
+    tags: r.tags || [],
   };
 }
 
@@ -144,56 +658,216 @@ interface NarrativeLayer {
 
 interface QueryResult {
   success: boolean;
-  results?: Array<{ text: string; source: string; score: number }>;
+  results?: MemoryResult[];
   narrative?: NarrativeLayer;
   narrative_count?: number;
   message?: string;
 }
 
+// Most times a search is repeated to make up for hidden session handoffs
+const MAX_SEARCH_REPEATS = 3;
+
+/**
+ * Run a search for at most `limit` results. Hidden session handoffs still
+ * count against the API's limit, so when some were dropped from a full page
+ * the search is repeated asking for that many more.
+ */
+async function searchMemory(
+  body: Record<string, unknown>,
+  limit: number,
+  filters: MemoryFilters
+): Promise<{ success: boolean; results: MemoryResult[]; narrative?: NarrativeLayer; narrative_count?: number; error?: string }> {
+  let requested = limit;
+  for (let repeats = 0; ; repeats++) {
+    const result = (await callAPI('/api/memdata/query', { ...body, limit: requested }, { idempotent: true })) as {
+      success: boolean;
+      results?: ApiQueryResult[];
+      narrative?: NarrativeLayer;
+      narrative_count?: number;
+      error?: string;
+    };
+    const all = (result.results || []).map(toMemoryResult);
+    const results = hidesSessions(filters) ? all.filter((r) => !isSessionRecord(r)) : all;
+    if (!result.success || results.length >= limit || all.length < requested || repeats === MAX_SEARCH_REPEATS) {
+      return { ...result, results: results.slice(0, limit) };
+    }
+    requested += all.length - results.length;
+  }
+}
+
 async function queryMemory(
   query: string,
-  limit: number = 5
+  limit: number = 5,
+  filters: MemoryFilters = {}
 ): Promise<QueryResult> {
-  const result = (await callAPI('/api/memdata/query', {
-    query,
-    limit,
-  })) as {
-    success: boolean;
-    results?: Array<{ chunk_text: string; source_name: string; similarity_score: number }>;
-    narrative?: NarrativeLayer;
-    narrative_count?: number;
-    error?: string;
-  };
+  return responseCache.wrap('query', [query, limit, filters, scopedNamespace(filters.scope)], async () => {
+    const body: Record<string, unknown> = { query };
+    addFilters(body, filters);
 
-  if (!result.success) {
-    return { success: false, message: result.error || 'Unknown error' };
-  }
+    const result = await searchMemory(body, limit, filters);
+    if (!result.success) {
+      return { success: false, message: result.error || 'Unknown error' };
+    }
 
-  return {
-    success: true,
-    narrative: result.narrative,
-    narrative_count: result.narrative_count,
-    results: (result.results || []).map((r) => ({
-      text: r.chunk_text,
-      source: r.source_name,
-      score: Math.round(r.similarity_score * 1000) / 1000,
-    })),
-  };
+    return {
+      success: true,
+      narrative: result.narrative,
+      narrative_count: result.narrative_count,
+      results: result.results,
+    };
+  }, (result) => result.success);
+}
+
+/**
+ * Filters and paging for listArtifacts
+ */
+interface ArtifactFilters extends MemoryFilters {
+  /** Opaque token from a previous page's nextCursor */
+  cursor?: string;
+  namePrefix?: string;
+  nameContains?: string;
+  type?: string;
+  since?: string;
+  until?: string;
+  sort?: 'newest' | 'oldest' | 'name';
+  /** List this namespace (null: no namespace filter) instead of the one the scope implies */
+  namespace?: string | null;
+}
+
+/**
+ * Namespace a listing is filtered by
+ */
+function listingNamespace(filters: ArtifactFilters): string | undefined {
+  return filters.namespace !== undefined ? filters.namespace ?? undefined : scopedNamespace(filters.scope);
+}
+
+/**
+ * One artifact in a listArtifacts page
+ */
+interface ArtifactSummary {
+  id: string;
+  name: string;
+  type: string;
+  chunks: number;
+  date: string;
+  createdAt: string;
+  tags: string[];
+  namespace: string | null;
+}
+
+/**
+ * Key identifying the listing a cursor belongs to: every filter and the sort
+ * order, so a cursor cannot be replayed against a different listing
+ */
+function listingKey(filters: ArtifactFilters): string {
+  const { cursor: _cursor, scope: _scope, ...rest } = filters;
+  return createHash('sha256')
+    .update(JSON.stringify({ ...rest, tags: normalizeTags(rest.tags), namespace: listingNamespace(filters) ?? null }))
+    .digest('base64url')
+    .slice(0, 12);
+}
+
+/**
+ * Cursors are opaque to the model; they wrap the offset of the next page and
+ * the listing it belongs to
+ */
+function encodeCursor(offset: number, key: string): string {
+  return Buffer.from(JSON.stringify({ o: offset, k: key })).toString('base64url');
+}
+
+function decodeCursor(cursor: string, key: string): number {
+  let parsed: { o?: unknown; k?: unknown };
+  try {
+    parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as typeof parsed;
+  } catch {
+    parsed = {};
+  }
+  const offset = parsed.o;
+  if (typeof offset !== 'number' || !Number.isInteger(offset) || offset < 0) {
+    throw new Error('Invalid cursor. Pass the next_cursor value from a previous list call.');
+  }
+  if (parsed.k !== key) {
+    throw new Error('This cursor belongs to a listing with different filters or sort order. Repeat the same filters, or start again without a cursor.');
+  }
+  return offset;
 }
 
 /**
  * List all artifacts in memory
  */
 async function listArtifacts(
-  limit: number = 20
+  limit: number = 20,
+  filters: ArtifactFilters = {}
 ): Promise<{
   success: boolean;
-  artifacts?: Array<{ id: string; name: string; type: string; chunks: number; date: string }>;
+  artifacts?: ArtifactSummary[];
+  nextCursor?: string;
+  /** Every id the API returned, including hidden session handoffs */
+  pageIds?: string[];
   message?: string;
 }> {
-  const result = (await callAPIGet(`/api/memdata/artifacts?limit=${limit}`)) as {
+  return responseCache.wrap('list', [limit, filters, listingNamespace(filters)], async () => {
+    const key = listingKey(filters);
+    let offset = filters.cursor ? decodeCursor(filters.cursor, key) : 0;
+    const hideSessions = hidesSessions(filters);
+    const artifacts: ArtifactSummary[] = [];
+    const pageIds: string[] = [];
+    let hasMore = true;
+
+    // Hidden session handoffs can leave a page short, so keep reading until it is full
+    for (let reads = 0; hasMore && artifacts.length < limit && reads < MAX_LIST_READS; reads++) {
+      const page = await fetchArtifactPage(limit - artifacts.length, offset, filters);
+      if (!page.success) return { success: false, message: page.message };
+      const added = page.artifacts.filter((a) => !pageIds.includes(a.id));
+      // An API that ignores offset returns the same page again
+      if (!added.length) {
+        hasMore = false;
+        break;
+      }
+      pageIds.push(...added.map((a) => a.id));
+      offset += page.artifacts.length;
+      hasMore = page.hasMore;
+      artifacts.push(...(hideSessions ? added.filter((a) => !isSessionRecord(a)) : added));
+    }
+
+    return {
+      success: true,
+      artifacts,
+      nextCursor: hasMore ? encodeCursor(offset, key) : undefined,
+      pageIds,
+    };
+  }, (result) => result.success);
+}
+
+/** Upper bound on API reads one listArtifacts call makes to fill a page */
+const MAX_LIST_READS = 20;
+
+/**
+ * One page of GET /api/memdata/artifacts, as returned by the API
+ */
+async function fetchArtifactPage(
+  limit: number,
+  offset: number,
+  filters: ArtifactFilters
+): Promise<{ success: true; artifacts: ArtifactSummary[]; hasMore: boolean } | { success: false; message: string }> {
+  const params = new URLSearchParams({ limit: String(limit) });
+  if (offset > 0) params.set('offset', String(offset));
+  if (filters.namePrefix) params.set('name_prefix', filters.namePrefix);
+  if (filters.nameContains) params.set('name_contains', filters.nameContains);
+  if (filters.type) params.set('type', filters.type);
+  if (filters.since) params.set('since', filters.since);
+  if (filters.until) params.set('until', filters.until);
+  if (filters.sort) params.set('sort', filters.sort);
+  const tags = normalizeTags(filters.tags);
+  if (tags.length) params.set('tags', tags.join(','));
+  if (filters.metadata && Object.keys(filters.metadata).length) params.set('metadata', JSON.stringify(filters.metadata));
+  const namespace = listingNamespace(filters);
+  if (namespace) params.set('namespace', namespace);
+
+  const result = (await callAPIGet(`/api/memdata/artifacts?${params}`)) as {
     success: boolean;
-    artifacts?: Array<{ id: string; source_name: string; type: string; chunk_count: number; created_at: string }>;
+    artifacts?: Array<{ id: string; source_name: string; type: string; chunk_count: number; created_at: string; tags?: string[]; namespace?: string | null }>;
+    has_more?: boolean;
     error?: string;
   };
 
@@ -201,54 +875,220 @@ async function listArtifacts(
     return { success: false, message: result.error || 'Unknown error' };
   }
 
+  const artifacts = result.artifacts || [];
   return {
     success: true,
-    artifacts: (result.artifacts || []).map((a) => ({
+    artifacts: artifacts.map((a) => ({
       id: a.id,
       name: a.source_name,
       type: a.type,
       chunks: a.chunk_count,
       date: a.created_at.split('T')[0],
+      createdAt: a.created_at,
+      tags: a.tags || [],
+      namespace: a.namespace ?? null,
     })),
+    hasMore: artifacts.length > 0 && (result.has_more ?? artifacts.length >= limit),
   };
 }
 
 /**
- * Delete an artifact from memory
+ * A stored artifact with its full text
  */
-async function deleteArtifact(
-  artifactId: string
-): Promise<{ success: boolean; deletedChunks?: number; message?: string }> {
-  const result = (await callAPIDelete(`/api/memdata/artifacts/${artifactId}`)) as {
+interface Artifact {
+  id: string;
+  name: string;
+  type: string;
+  date: string;
+  createdAt: string;
+  text: string;
+  chunks: number;
+  tags: string[];
+  metadata: Record<string, unknown>;
+  namespace: string | null;
+}
+
+/**
+ * Get a single artifact with its full text
+ */
+async function getArtifact(
+  artifactId: string,
+  scope: Scope = 'project'
+): Promise<{ success: true; artifact: Artifact } | { success: false; message: string }> {
+  let result: {
     success: boolean;
-    deleted_chunks?: number;
+    artifact?: {
+      id: string;
+      source_name: string;
+      type: string;
+      chunk_count: number;
+      created_at: string;
+      tags?: string[];
+      metadata?: Record<string, unknown>;
+      namespace?: string | null;
+      chunks?: Array<{ chunk_text: string; chunk_index: number }>;
+    };
     error?: string;
-    message?: string;
   };
+  try {
+    result = (await callAPIGet(`/api/memdata/artifacts/${encodeURIComponent(artifactId)}${namespaceQuery(scope)}`)) as typeof result;
+  } catch (error) {
+    // API deployments without the single-artifact endpoint
+    if (error instanceof ApiError && [404, 405, 501].includes(error.status ?? 0)) {
+      return getArtifactFromChunks(artifactId, scope);
+    }
+    throw error;
+  }
 
-  if (!result.success) {
-    return { success: false, message: result.error || 'Unknown error' };
+  if (!result.success || !result.artifact) {
+    return { success: false, message: result.error || `Artifact ${artifactId} not found` };
   }
 
+  const chunks = [...(result.artifact.chunks || [])].sort((a, b) => a.chunk_index - b.chunk_index);
+
   return {
     success: true,
-    deletedChunks: result.deleted_chunks,
-    message: result.message,
+    artifact: {
+      id: result.artifact.id,
+      name: result.artifact.source_name,
+      type: result.artifact.type,
+      date: result.artifact.created_at.split('T')[0],
+      createdAt: result.artifact.created_at,
+      text: chunks.map((c) => c.chunk_text).join('\n\n'),
+      chunks: result.artifact.chunk_count,
+      tags: result.artifact.tags || [],
+      metadata: result.artifact.metadata || {},
+      namespace: result.artifact.namespace ?? null,
+    },
   };
 }
 
 /**
- * Get agent identity (who am I)
+ * Fallback for getArtifact: find the artifact in the list, then rebuild its
+ * text from the chunks a search for its name returns. Fails rather than
+ * returning partial text when not every chunk can be found.
  */
-async function getIdentity(): Promise<{
-  success: boolean;
-  identity?: {
-    agent_name: string | null;
-    identity_summary: string | null;
-    session_count: number;
+async function getArtifactFromChunks(
+  artifactId: string,
+  scope: Scope
+): Promise<{ success: true; artifact: Artifact } | { success: false; message: string }> {
+  const summary = (await listAllArtifacts(scope, true)).find((a) => a.id === artifactId);
+  if (!summary) return { success: false, message: `Artifact ${artifactId} not found` };
+
+  const found = await queryMemory(summary.name, Math.max(summary.chunks * 2, 10), { scope, includeSessions: true });
+  if (!found.success) return { success: false, message: found.message || 'Unknown error' };
+
+  const chunks: Array<{ index: number; text: string }> = [];
+  for (const result of found.results || []) {
+    if (result.source !== summary.name || !result.chunk_id) continue;
+    const chunk = await getChunk(result.chunk_id, scope);
+    if (chunk.success && chunk.chunk?.artifact_id === artifactId) {
+      chunks.push({ index: chunk.chunk.chunk_index ?? chunks.length, text: chunk.chunk.text });
+    }
+  }
+  if (chunks.length < summary.chunks) {
+    return {
+      success: false,
+      message: `The API does not return artifact text directly, and only ${chunks.length} of the ${summary.chunks} chunks of ${summary.name} (${artifactId}) could be found`,
+    };
+  }
+  chunks.sort((a, b) => a.index - b.index);
+
+  return {
+    success: true,
+    artifact: {
+      id: summary.id,
+      name: summary.name,
+      type: summary.type,
+      date: summary.date,
+      createdAt: summary.createdAt,
+      text: chunks.map((c) => c.text).join('\n\n'),
+      chunks: summary.chunks,
+      tags: summary.tags,
+      metadata: {},
+      namespace: null,
+    },
   };
-  last_session?: Record<string, unknown>;
-  working_on?: string | null;
+}
+
+/**
+ * Get a single chunk with its full text (used to expand an insight's source)
+ */
+async function getChunk(
+  chunkId: string,
+  scope: Scope = 'project'
+): Promise<{
+  success: boolean;
+  chunk?: { id: string; artifact_id: string | null; source: string | null; date: string | null; chunk_index: number | null; text: string };
+  message?: string;
+}> {
+  const result = (await callAPIGet(`/api/memdata/chunks/${encodeURIComponent(chunkId)}${namespaceQuery(scope)}`)) as {
+    success: boolean;
+    chunk?: {
+      id: string;
+      chunk_text: string;
+      chunk_index?: number;
+      artifact_id?: string;
+      source_name?: string;
+      created_at?: string;
+    };
+    error?: string;
+  };
+
+  if (!result.success || !result.chunk) {
+    return { success: false, message: result.error || 'Chunk not found' };
+  }
+
+  return {
+    success: true,
+    chunk: {
+      id: result.chunk.id,
+      artifact_id: result.chunk.artifact_id ?? null,
+      source: result.chunk.source_name ?? null,
+      date: result.chunk.created_at ? result.chunk.created_at.split('T')[0] : null,
+      chunk_index: result.chunk.chunk_index ?? null,
+      text: result.chunk.chunk_text,
+    },
+  };
+}
+
+/**
+ * Delete an artifact from memory
+ */
+async function deleteArtifact(
+  artifactId: string,
+  scope: Scope = 'project'
+): Promise<{ success: boolean; deletedChunks?: number; message?: string }> {
+  const result = (await callAPIDelete(`/api/memdata/artifacts/${artifactId}${namespaceQuery(scope)}`)) as {
+    success: boolean;
+    deleted_chunks?: number;
+    error?: string;
+    message?: string;
+  };
+
+  if (!result.success) {
+    return { success: false, message: result.error || 'Unknown error' };
+  }
+
+  return {
+    success: true,
+    deletedChunks: result.deleted_chunks,
+    message: result.message,
+  };
+}
+
+/**
+ * Get agent identity (who am I)
+ */
+async function getIdentity(): Promise<{
+  success: boolean;
+  identity?: {
+    agent_name: string | null;
+    identity_summary: string | null;
+    session_count: number;
+  };
+  last_session?: Record<string, unknown>;
+  working_on?: string | null;
   memory_stats?: {
     total_memories: number;
     oldest_memory: string | null;
@@ -258,7 +1098,7 @@ async function getIdentity(): Promise<{
   message?: string;
 }> {
   try {
-    const result = (await callAPIGet('/api/memdata/identity')) as {
+    const result = (await callAPIGet(`/api/memdata/identity${namespaceQuery()}`)) as {
       success: boolean;
       identity?: {
         agent_name: string | null;
@@ -286,7 +1126,7 @@ async function getIdentity(): Promise<{
       last_session: result.last_session,
       working_on: result.working_on,
       memory_stats: result.memory_stats,
-      recent_activity: result.recent_activity,
+      recent_activity: result.recent_activity?.filter((r) => !r.source.startsWith(`${SESSION_TAG}/`)),
     };
   } catch (error) {
     return {
@@ -298,56 +1138,174 @@ async function getIdentity(): Promise<{
 
 /**
  * End session with handoff
+ *
+ * If the API is unreachable the handoff is saved to the offline queue instead.
  */
 async function endSession(
   summary: string,
   working_on?: string,
-  context?: Record<string, unknown>
-): Promise<{ success: boolean; message?: string }> {
+  context?: Record<string, unknown>,
+  startedAt?: string
+): Promise<{
+  success: boolean;
+  queuedId?: string;
+  /** The handoff as stored, after redaction */
+  saved?: { summary: string; working_on?: string };
+  /** Session history record, if it could be written */
+  history?: { artifactId?: string; queuedId?: string; message?: string };
+  redactions: RedactionFinding[];
+  message?: string;
+}> {
+  const redacted = await redactFields({ summary, working_on, context: context || {} });
+  if (!redacted.success) return redacted;
+  const { redactions } = redacted;
+  const saved = { summary: redacted.value.summary, working_on: redacted.value.working_on };
+
+  const handoff = {
+    summary: redacted.value.summary,
+    context: redacted.value.context,
+    started_at: startedAt,
+    ended_at: new Date().toISOString(),
+  };
+  const body = {
+    working_on: redacted.value.working_on,
+    namespace: NAMESPACE ?? undefined,
+    session_handoff: handoff,
+  };
+
   try {
-    const result = (await callAPI('/api/memdata/identity', {
-      working_on,
-      session_handoff: {
-        summary,
-        context: context || {},
-        ended_at: new Date().toISOString(),
-      },
-    })) as { success: boolean; error?: string; message?: string };
+    const result = (await callAPI('/api/memdata/identity', body)) as { success: boolean; error?: string; message?: string };
 
     if (!result.success) {
-      return { success: false, message: result.error || 'Unknown error' };
+      return { success: false, redactions, message: result.error || 'Unknown error' };
     }
 
-    return { success: true, message: result.message };
+    const history = await saveSessionRecord({ ...handoff, working_on: saved.working_on });
+    return { success: true, saved, history, redactions, message: result.message };
   } catch (error) {
+    if (isUnavailable(error)) {
+      try {
+        const queued = await writeQueue.enqueue('session_end', body.session_handoff.summary.substring(0, 60), '/api/memdata/identity', body);
+        const history = await saveSessionRecord({ ...handoff, working_on: saved.working_on });
+        return { success: true, queuedId: queued.id, saved, history, redactions, message: (error as Error).message };
+      } catch {
+        // Fall through and report the original error
+      }
+    }
     return {
       success: false,
+      redactions,
       message: error instanceof Error ? error.message : 'Unknown error',
     };
   }
 }
 
+/**
+ * A past session handoff, as listed by memdata_session_history
+ */
+interface SessionRecord {
+  id: string;
+  name: string;
+  started_at: string | null;
+  ended_at: string;
+  working_on: string | null;
+  summary: string;
+  context: Record<string, unknown>;
+  namespace: string | null;
+}
+
+/**
+ * Keep a handoff as its own artifact so later handoffs do not replace it.
+ * The text is what search matches; the fields are kept in metadata.
+ */
+async function saveSessionRecord(handoff: {
+  summary: string;
+  working_on?: string;
+  context: Record<string, unknown>;
+  started_at?: string;
+  ended_at: string;
+}): Promise<{ artifactId?: string; queuedId?: string; message?: string }> {
+  const lines = [`Session handoff (ended ${handoff.ended_at})`];
+  if (handoff.working_on) lines.push(`Working on: ${handoff.working_on}`);
+  lines.push(`Summary: ${handoff.summary}`);
+  const context = Object.entries(handoff.context);
+  if (context.length) {
+    lines.push('Context:', ...context.map(([key, value]) => `- ${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`));
+  }
+
+  try {
+    const result = await ingestContent(lines.join('\n'), `${SESSION_TAG}/${handoff.ended_at}`, {
+      tags: [SESSION_TAG],
+      metadata: { kind: 'session_handoff', ...handoff },
+    });
+    return result.success ? { artifactId: result.artifactId, queuedId: result.queuedId } : { message: result.message };
+  } catch (error) {
+    return { message: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+function toSessionRecord(artifact: Artifact): SessionRecord {
+  const meta = artifact.metadata;
+  const text = (key: string) => (typeof meta[key] === 'string' ? (meta[key] as string) : null);
+  return {
+    id: artifact.id,
+    name: artifact.name,
+    started_at: text('started_at'),
+    ended_at: text('ended_at') || artifact.createdAt,
+    working_on: text('working_on'),
+    summary: text('summary') ?? artifact.text,
+    context: meta.context && typeof meta.context === 'object' && !Array.isArray(meta.context) ? (meta.context as Record<string, unknown>) : {},
+    namespace: artifact.namespace,
+  };
+}
+
+/**
+ * Load a session record by artifact id or by its name (session-handoff/<ended_at>)
+ */
+async function getSessionRecord(idOrName: string, scope: Scope = 'project'): Promise<SessionRecord | null> {
+  let id = idOrName;
+  if (idOrName.startsWith(`${SESSION_TAG}/`)) {
+    const page = await listArtifacts(5, { namePrefix: idOrName, tags: [SESSION_TAG], scope });
+    if (!page.success) throw new Error(page.message);
+    const match = page.artifacts?.find((a) => a.name === idOrName);
+    if (!match) return null;
+    id = match.id;
+  }
+
+  const result = await getArtifact(id, scope);
+  if (!result.success) return null;
+  return toSessionRecord(result.artifact);
+}
+
 /**
  * Update agent identity
  */
 async function updateIdentity(
   agent_name?: string,
   identity_summary?: string
-): Promise<{ success: boolean; message?: string }> {
+): Promise<{
+  success: boolean;
+  /** The identity as stored, after redaction */
+  saved?: { agent_name?: string; identity_summary?: string };
+  redactions: RedactionFinding[];
+  message?: string;
+}> {
+  const redacted = await redactFields({ agent_name, identity_summary });
+  if (!redacted.success) return redacted;
+  const { redactions } = redacted;
+
   try {
-    const result = (await callAPI('/api/memdata/identity', {
-      agent_name,
-      identity_summary,
-    })) as { success: boolean; error?: string; message?: string };
+    const result = (await callAPI('/api/memdata/identity', redacted.value)) as { success: boolean; error?: string; message?: string };
 
     if (!result.success) {
-      return { success: false, message: result.error || 'Unknown error' };
+      return { success: false, redactions, message: result.error || 'Unknown error' };
     }
 
-    return { success: true, message: result.message };
+    return { success: true, saved: redacted.value, redactions, message: result.message };
   } catch (error) {
     return {
       success: false,
+      redactions,
       message: error instanceof Error ? error.message : 'Unknown error',
     };
   }
@@ -360,31 +1318,22 @@ async function queryMemoryWithDates(
   queryText: string,
   limit: number = 5,
   since?: string,
-  until?: string
-): Promise<{ success: boolean; results?: Array<{ text: string; source: string; score: number; date: string }>; message?: string }> {
-  const body: Record<string, unknown> = { query: queryText, limit };
-  if (since) body.since = since;
-  if (until) body.until = until;
-
-  const result = (await callAPI('/api/memdata/query', body)) as {
-    success: boolean;
-    results?: Array<{ chunk_text: string; source_name: string; similarity_score: number; created_at: string }>;
-    error?: string;
-  };
-
-  if (!result.success) {
-    return { success: false, message: result.error || 'Unknown error' };
-  }
+  until?: string,
+  filters: MemoryFilters = {}
+): Promise<{ success: boolean; results?: MemoryResult[]; message?: string }> {
+  return responseCache.wrap('query_timerange', [queryText, limit, since, until, filters, scopedNamespace(filters.scope)], async () => {
+    const body: Record<string, unknown> = { query: queryText };
+    if (since) body.since = since;
+    if (until) body.until = until;
+    addFilters(body, filters);
+
+    const result = await searchMemory(body, limit, filters);
+    if (!result.success) {
+      return { success: false, message: result.error || 'Unknown error' };
+    }
 
-  return {
-    success: true,
-    results: (result.results || []).map((r) => ({
-      text: r.chunk_text,
-      source: r.source_name,
-      score: Math.round(r.similarity_score * 1000) / 1000,
-      date: r.created_at.split('T')[0],
-    })),
-  };
+    return { success: true, results: result.results };
+  }, (result) => result.success);
 }
 
 /**
@@ -401,40 +1350,57 @@ async function getRelationships(
   relationships?: Array<{ name: string; type: string; strength: number }>;
   message?: string;
 }> {
-  try {
-    const result = (await callAPI('/api/memdata/relationships', {
-      entity,
-      type,
-      limit,
-    })) as {
-      success: boolean;
-      entity?: string;
-      entity_type?: string;
-      results?: Array<{ name: string; type: string; co_occurrence_count: number }>;
-      error?: string;
-      message?: string;
-    };
+  return responseCache.wrap('relationships', [entity, type, limit], async () => {
+    try {
+      const result = (await callAPI('/api/memdata/relationships', {
+        entity,
+        type,
+        limit,
+      }, { idempotent: true })) as {
+        success: boolean;
+        entity?: string;
+        entity_type?: string;
+        results?: Array<{ name: string; type: string; co_occurrence_count: number }>;
+        error?: string;
+        message?: string;
+      };
 
-    if (!result.success) {
-      return { success: false, message: result.error || result.message || 'Unknown error' };
+      if (!result.success) {
+        return { success: false, message: result.error || result.message || 'Unknown error' };
+      }
+
+      return {
+        success: true,
+        entity_name: result.entity,
+        entity_type: result.entity_type,
+        relationships: (result.results || []).map((r) => ({
+          name: r.name,
+          type: r.type,
+          strength: r.co_occurrence_count,
+        })),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      };
     }
+  }, (result) => result.success);
+}
 
-    return {
-      success: true,
-      entity_name: result.entity,
-      entity_type: result.entity_type,
-      relationships: (result.results || []).map((r) => ({
-        name: r.name,
-        type: r.type,
-        strength: r.co_occurrence_count,
-      })),
-    };
-  } catch (error) {
-    return {
-      success: false,
-      message: error instanceof Error ? error.message : 'Unknown error',
-    };
+/**
+ * Direct co-occurrences of an entity for memdata_graph; throws on failure
+ */
+async function fetchNeighbourhood(entity: string, limit: number): Promise<Neighbourhood> {
+  const result = await getRelationships(entity, undefined, limit);
+  if (!result.success) {
+    throw new Error(`${entity}: ${result.message}`);
   }
+  return {
+    name: result.entity_name || entity,
+    type: result.entity_type ?? null,
+    neighbours: result.relationships || [],
+  };
 }
 
 /**
@@ -477,531 +1443,2216 @@ async function getStatus(): Promise<{
   }
 }
 
-// Create MCP server
-const server = new McpServer({
-  name: 'memdata',
-  version: '1.0.0',
-});
-
-// Register ingest tool
-server.tool(
-  'memdata_ingest',
-  'Ingest text content into long-term memory for later retrieval. Use this to store important information, notes, decisions, or context that should be remembered across conversations.',
-  {
-    content: z.string().describe('Text content to store in memory'),
-    name: z.string().describe('Source name/identifier for this memory (e.g., "meeting-notes-2024-01-15", "project-decision", "user-preference")'),
-  },
-  async ({ content, name }) => {
-    try {
-      const result = await ingestContent(content, name);
-
-      if (!result.success) {
-        return {
-          content: [{ type: 'text' as const, text: `Failed to ingest: ${result.message}` }],
-          isError: true,
-        };
-      }
+/** Upper bound on the pages one listing loop follows (50 artifacts each) */
+const MAX_LIST_PAGES = 200;
 
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: `✅ Stored in memory:\n- Source: ${name}\n- Chunks: ${result.chunkCount}\n- ID: ${result.artifactId}\n\n🏷️ AI tagging & narrative extraction will run in background (~2 min).`,
-          },
-        ],
-      };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unknown error';
-      return {
-        content: [{ type: 'text' as const, text: `Failed to ingest content: ${message}` }],
-        isError: true,
-      };
-    }
+/**
+ * Follow list cursors, yielding the artifacts each page adds. Stops when a
+ * page adds nothing new, so an API that ignores the offset cannot make it
+ * loop forever, and fails rather than truncate after MAX_LIST_PAGES pages.
+ */
+async function* artifactPages(filters: ArtifactFilters): AsyncGenerator<ArtifactSummary[]> {
+  const seen = new Set<string>();
+  let cursor: string | undefined;
+
+  for (let pages = 0; pages < MAX_LIST_PAGES; pages++) {
+    const page = await listArtifacts(50, { ...filters, cursor });
+    if (!page.success) throw new Error(`Failed to list: ${page.message}`);
+    const added = (page.pageIds || []).filter((id) => !seen.has(id));
+    if (!added.length) return;
+    for (const id of added) seen.add(id);
+    yield (page.artifacts || []).filter((a) => added.includes(a.id));
+    cursor = page.nextCursor;
+    if (!cursor) return;
   }
-);
-
-// Register query tool
-server.tool(
-  'memdata_query',
-  'Search memory for relevant context based on a natural language query. Returns the most semantically similar stored content with similarity scores.',
-  {
-    query: z.string().describe('Natural language search query (e.g., "What did we decide about the database?", "meeting notes from last week")'),
-    limit: z.number().optional().default(5).describe('Maximum number of results to return (default: 5, max: 20)'),
-  },
-  async ({ query, limit }) => {
-    try {
-      const result = await queryMemory(query, Math.min(limit, 20));
-
-      if (!result.success) {
-        return {
-          content: [{ type: 'text' as const, text: `Failed to query: ${result.message}` }],
-          isError: true,
-        };
-      }
-
-      if (!result.results || result.results.length === 0) {
-        return {
-          content: [{ type: 'text' as const, text: 'No relevant memories found for this query.' }],
-        };
-      }
-
-      // Add match quality indicator based on score
-      const getMatchQuality = (score: number): string => {
-        if (score >= 0.7) return '🟢'; // Strong match
-        if (score >= 0.5) return '🟡'; // Good match
-        if (score >= 0.35) return '🟠'; // Partial match
-        return '🔴'; // Weak match
-      };
+  throw new Error(`Listing stopped after ${MAX_LIST_PAGES} pages; narrow it with filters`);
+}
 
-      const formatted = result.results
-        .map((r, i) => `[${i + 1}] ${getMatchQuality(r.score)} ${(r.score * 100).toFixed(1)}% | ${r.source}\n${r.text}`)
-        .join('\n\n---\n\n');
+/**
+ * Fetch every artifact by following list cursors
+ */
+async function listAllArtifacts(scope: Scope = 'project', includeSessions = false): Promise<ArtifactSummary[]> {
+  const all: ArtifactSummary[] = [];
+  for await (const page of artifactPages({ sort: 'oldest', scope, includeSessions })) all.push(...page);
+  return all;
+}
 
-      // Format narrative layer if present
-      let narrativeSection = '';
-      if (result.narrative && (result.narrative_count ?? 0) > 0) {
-        const parts: string[] = [];
+function textHash(text: string): string {
+  return createHash('sha256').update(text.trim()).digest('hex');
+}
 
-        if (result.narrative.decisions?.length) {
-          parts.push('DECISIONS:\n' + result.narrative.decisions
-            .map((n: { content: string; confidence: number }) => `  • ${n.content} (${Math.round(n.confidence * 100)}%)`)
-            .join('\n'));
-        }
-        if (result.narrative.causality?.length) {
-          parts.push('CAUSALITY:\n' + result.narrative.causality
-            .map((n: { content: string; confidence: number }) => `  • ${n.content} (${Math.round(n.confidence * 100)}%)`)
-            .join('\n'));
-        }
-        if (result.narrative.patterns?.length) {
-          parts.push('PATTERNS:\n' + result.narrative.patterns
-            .map((n: { content: string; confidence: number }) => `  • ${n.content} (${Math.round(n.confidence * 100)}%)`)
-            .join('\n'));
-        }
-        if (result.narrative.implications?.length) {
-          parts.push('IMPLICATIONS:\n' + result.narrative.implications
-            .map((n: { content: string; confidence: number }) => `  • ${n.content} (${Math.round(n.confidence * 100)}%)`)
-            .join('\n'));
-        }
-        if (result.narrative.gaps?.length) {
-          parts.push('GAPS:\n' + result.narrative.gaps
-            .map((n: { content: string; confidence: number }) => `  • ${n.content} (${Math.round(n.confidence * 100)}%)`)
-            .join('\n'));
-        }
+/**
+ * Export every artifact, the identity and the last session handoff to an
+ * archive file; past session handoffs only with `includeSessions`. An existing
+ * file is only replaced when `overwrite` is set.
+ */
+async function exportArchive(
+  fullPath: string,
+  format: ArchiveFormat,
+  overwrite: boolean,
+  includeSessions: boolean
+): Promise<{ path: string; artifacts: number; sessions: number }> {
+  const records: ArchiveRecord[] = [
+    { type: 'header', version: ARCHIVE_VERSION, exported_at: new Date().toISOString(), source: MEMDATA_API_URL },
+  ];
+
+  const identity = await getIdentity();
+  if (!identity.success) throw new Error(`Failed to get identity: ${identity.message}`);
+  records.push({
+    type: 'identity',
+    agent_name: identity.identity?.agent_name ?? null,
+    identity_summary: identity.identity?.identity_summary ?? null,
+    working_on: identity.working_on ?? null,
+  });
 
-        if (parts.length > 0) {
-          narrativeSection = '\n\n═══ NARRATIVE INSIGHTS ═══\n' + parts.join('\n\n');
-        }
-      }
+  let sessions = 0;
+  if (identity.last_session && Object.keys(identity.last_session).length > 0) {
+    records.push({ type: 'session', handoff: identity.last_session });
+    sessions++;
+  }
 
-      // Add score legend for first-time users
-      const scoreLegend = '\n\n---\n_Match quality: 🟢 >70% strong | 🟡 >50% good | 🟠 >35% partial | 🔴 weak_';
+  let artifacts = 0;
+  for (const summary of await listAllArtifacts('all', includeSessions)) {
+    const result = await getArtifact(summary.id, 'all');
+    if (!result.success) throw new Error(`Failed to read artifact ${summary.id}: ${result.message}`);
+    const { artifact } = result;
+    records.push({
+      type: 'artifact',
+      id: artifact.id,
+      name: artifact.name,
+      artifact_type: artifact.type,
+      created_at: artifact.createdAt,
+      tags: artifact.tags,
+      metadata: artifact.metadata,
+      namespace: artifact.namespace ?? undefined,
+      text: artifact.text,
+    });
+    artifacts++;
+  }
 
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: `Found ${result.results.length} relevant memories:\n\n${formatted}${narrativeSection}${scoreLegend}`,
-          },
-        ],
-      };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unknown error';
-      return {
-        content: [{ type: 'text' as const, text: `Failed to query memory: ${message}` }],
-        isError: true,
-      };
+  await mkdir(dirname(fullPath), { recursive: true });
+  try {
+    await writeFile(fullPath, serializeArchive(records, format), { encoding: 'utf8', flag: overwrite ? 'w' : 'wx' });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      throw new Error(`${fullPath} already exists; choose another path or set overwrite to replace it`);
     }
+    throw error;
   }
-);
 
-// Register list tool
-server.tool(
-  'memdata_list',
-  'List all stored memories/artifacts. Shows what content has been ingested with chunk counts and dates. Use this to see what is in memory before querying or to find artifact IDs for deletion.',
-  {
-    limit: z.number().optional().default(20).describe('Maximum number of artifacts to return (default: 20, max: 50)'),
-  },
-  async ({ limit }) => {
-    try {
-      const result = await listArtifacts(Math.min(limit, 50));
+  return { path: fullPath, artifacts, sessions };
+}
 
-      if (!result.success) {
-        return {
-          content: [{ type: 'text' as const, text: `Failed to list: ${result.message}` }],
-          isError: true,
-        };
-      }
+/**
+ * Re-ingest an archive, keeping names and dates and skipping artifacts that
+ * already exist with the same name and content
+ */
+async function importArchive(fullPath: string): Promise<{
+  imported: number;
+  skipped: number;
+  queued: number;
+  failed: Array<{ name: string; message: string }>;
+  identityRestored: boolean;
+  sessionRestored: boolean;
+}> {
+  const records = parseArchive(await readFile(fullPath, 'utf8'));
+  const header = records.find((r): r is ArchiveHeader => r.type === 'header');
+  if (!header) throw new Error('Invalid archive: missing header');
+  if (header.version > ARCHIVE_VERSION) {
+    throw new Error(`Archive version ${header.version} is newer than this server supports (${ARCHIVE_VERSION})`);
+  }
 
-      if (!result.artifacts || result.artifacts.length === 0) {
-        return {
-          content: [{ type: 'text' as const, text: 'No memories stored yet. Use memdata_ingest to add content.' }],
-        };
+  // Existing artifacts by namespace and name: a memory only counts as already
+  // present in the namespace it is imported into. Content is only fetched when
+  // a name collides.
+  const key = (namespace: string | null | undefined, name: string) => JSON.stringify([namespace ?? null, name]);
+  const existingByName = new Map<string, string[]>();
+  for (const a of await listAllArtifacts('all', true)) {
+    const k = key(a.namespace, a.name);
+    existingByName.set(k, [...(existingByName.get(k) || []), a.id]);
+  }
+  const hashesByName = new Map<string, Set<string>>();
+  const existingHashes = async (namespace: string | null | undefined, name: string): Promise<Set<string>> => {
+    const k = key(namespace, name);
+    let hashes = hashesByName.get(k);
+    if (!hashes) {
+      hashes = new Set();
+      for (const id of existingByName.get(k) || []) {
+        const result = await getArtifact(id, 'all');
+        if (result.success) hashes.add(textHash(result.artifact.text));
       }
+      hashesByName.set(k, hashes);
+    }
+    return hashes;
+  };
 
-      const formatted = result.artifacts
-        .map((a) => `- ${a.name} (${a.chunks} chunks, ${a.date})\n  ID: ${a.id}`)
-        .join('\n');
+  const summary = { imported: 0, skipped: 0, queued: 0, failed: [] as Array<{ name: string; message: string }>, identityRestored: false, sessionRestored: false };
 
-      const countNote = result.artifacts.length >= limit
-        ? `\n\n_Showing ${result.artifacts.length} memories. Use \`limit\` param for more._`
-        : '';
+  for (const [index, record] of records.entries()) {
+    if (record.type !== 'artifact') continue;
 
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: `Stored memories (${result.artifacts.length}):\n\n${formatted}${countNote}`,
-          },
-        ],
-      };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unknown error';
-      return {
-        content: [{ type: 'text' as const, text: `Failed to list memories: ${message}` }],
-        isError: true,
-      };
+    const checked = checkArtifact(record);
+    if (!checked.success) {
+      summary.failed.push({ name: typeof record.name === 'string' && record.name ? record.name : `record ${index + 1}`, message: checked.message });
+      continue;
     }
-  }
-);
+    const artifact = checked.artifact;
 
-// Register delete tool
-server.tool(
-  'memdata_delete',
-  'Delete a memory/artifact from storage. This permanently removes the content and all associated chunks. Use memdata_list to find artifact IDs.',
-  {
-    artifact_id: z.string().describe('The UUID of the artifact to delete (get this from memdata_list)'),
-  },
-  async ({ artifact_id }) => {
     try {
-      const result = await deleteArtifact(artifact_id);
+      const hashes = await existingHashes(artifact.namespace, artifact.name);
+      const hash = textHash(artifact.text);
+      if (hashes.has(hash)) {
+        summary.skipped++;
+        continue;
+      }
 
+      const result = await ingestContent(artifact.text, artifact.name, {
+        createdAt: artifact.created_at,
+        tags: artifact.tags,
+        metadata: artifact.metadata,
+        // Memories exported without a namespace stay without one
+        namespace: artifact.namespace ?? null,
+      });
       if (!result.success) {
-        return {
-          content: [{ type: 'text' as const, text: `Failed to delete: ${result.message}` }],
-          isError: true,
-        };
+        summary.failed.push({ name: artifact.name, message: result.message || 'Unknown error' });
+        continue;
       }
-
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: `Successfully deleted artifact and ${result.deletedChunks} chunks.`,
-          },
-        ],
-      };
+      hashes.add(hash);
+      if (result.queuedId) summary.queued++;
+      else summary.imported++;
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unknown error';
-      return {
-        content: [{ type: 'text' as const, text: `Failed to delete: ${message}` }],
-        isError: true,
-      };
+      summary.failed.push({ name: artifact.name, message: error instanceof Error ? error.message : 'Unknown error' });
     }
   }
-);
 
-// Register status tool
-server.tool(
-  'memdata_status',
-  'Check the health and storage usage of your MemData account. Shows API connectivity and how much storage space is used.',
-  {},
-  async () => {
-    try {
-      const result = await getStatus();
+  // Identity and handoff only fill in what the target does not have yet
+  const current = await getIdentity();
+  if (current.success) {
+    const identity = records.find((r): r is ArchiveIdentity => r.type === 'identity');
+    if (identity && !current.identity?.agent_name && !current.identity?.identity_summary &&
+        (identity.agent_name || identity.identity_summary)) {
+      const result = await updateIdentity(identity.agent_name || undefined, identity.identity_summary || undefined);
+      summary.identityRestored = result.success;
+    }
 
-      if (!result.success) {
-        return {
-          content: [{ type: 'text' as const, text: `Failed to get status: ${result.message}` }],
-          isError: true,
-        };
+    const session = records.filter((r): r is ArchiveSession => r.type === 'session').pop();
+    if (session && (!current.last_session || Object.keys(current.last_session).length === 0)) {
+      const redacted = await redactFields({
+        working_on: current.working_on || identity?.working_on || undefined,
+        session_handoff: session.handoff,
+      });
+      if (redacted.success) {
+        const result = (await callAPI('/api/memdata/identity', {
+          ...redacted.value,
+          namespace: NAMESPACE ?? undefined,
+        })) as { success: boolean };
+        summary.sessionRestored = result.success;
       }
-
-      const healthStatus = result.healthy ? 'Healthy' : 'Unhealthy';
-      const storage = result.storage!;
-
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: `MemData Status:\n- API: ${healthStatus}\n- Storage: ${storage.used_mb} MB / ${storage.limit_mb} MB (${storage.percent}% used)`,
-          },
-        ],
-      };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unknown error';
-      return {
-        content: [{ type: 'text' as const, text: `Failed to get status: ${message}` }],
-        isError: true,
-      };
     }
   }
-);
 
-// Register session start tool (renamed from whoami for clarity)
-server.tool(
-  'memdata_session_start',
-  '🚀 CALL THIS FIRST at the start of every session. Returns your identity, what you were working on, last session handoff, recent activity, and memory stats. Essential for session continuity.',
-  {},
-  async () => {
-    try {
-      const result = await getIdentity();
+  return summary;
+}
 
-      if (!result.success) {
-        return {
-          content: [{ type: 'text' as const, text: `Failed to get identity: ${result.message}` }],
+function formatImportSummary(result: Awaited<ReturnType<typeof importArchive>>): string {
+  let text = `Import complete:\n- Imported: ${result.imported}\n- Skipped (already present): ${result.skipped}`;
+  if (result.queued) text += `\n- Queued (API unavailable): ${result.queued}`;
+  text += `\n- Identity restored: ${result.identityRestored ? 'yes' : 'no'}`;
+  text += `\n- Session handoff restored: ${result.sessionRestored ? 'yes' : 'no'}`;
+  if (result.failed.length) {
+    text += `\n- Failed: ${result.failed.length}\n` + result.failed.map((f) => `  - ${f.name}: ${f.message}`).join('\n');
+  }
+  return text;
+}
+
+/**
+ * Bulk deletes are previewed first; the preview hands out a token that
+ * confirms exactly the artifacts it listed. Tokens are keyed by session, so
+ * one HTTP client cannot confirm another's preview.
+ */
+const pendingBulkDeletes = new Map<string, { ids: string[]; scope: Scope; expires: number }>();
+
+function bulkDeleteKey(sessionId: string | undefined, token: string): string {
+  return `${sessionId ?? 'stdio'}/${token}`;
+}
+const BULK_DELETE_TOKEN_TTL_MS = 10 * 60 * 1000;
+const MAX_BULK_DELETE = 500;
+
+/**
+ * Convert a name pattern with `*` and `?` wildcards to a regular expression
+ */
+function wildcardToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+/**
+ * Select artifacts matching a name pattern, date range and tags
+ */
+async function selectArtifacts(filters: {
+  namePattern?: string;
+  since?: string;
+  until?: string;
+  tags?: string[];
+  scope?: Scope;
+}): Promise<Array<{ id: string; name: string; chunks: number; date: string; tags: string[] }>> {
+  const matcher = filters.namePattern ? wildcardToRegExp(filters.namePattern) : null;
+  // Let the API narrow by the literal part of the pattern before the first wildcard
+  const namePrefix = filters.namePattern ? filters.namePattern.split(/[*?]/)[0] || undefined : undefined;
+
+  const selected: Array<{ id: string; name: string; chunks: number; date: string; tags: string[] }> = [];
+  const pages = artifactPages({
+    namePrefix,
+    since: filters.since,
+    until: filters.until,
+    tags: filters.tags,
+    scope: filters.scope,
+    sort: 'oldest',
+  });
+  for await (const page of pages) {
+    selected.push(...page.filter((a) => !matcher || matcher.test(a.name)));
+    if (selected.length > MAX_BULK_DELETE) break;
+  }
+
+  return selected;
+}
+
+/**
+ * Append a tool call to the audit log. Arguments go through the redactor
+ * like any write, so secrets in queries and names are masked too.
+ */
+async function auditToolCall(call: ToolCall, client: string | null): Promise<void> {
+  if (!auditLog) return;
+  let logged: { args: Record<string, unknown>; error: string | null };
+  try {
+    logged = (await redactor.redact({ args: sanitizeArgs(call.args), error: call.error ? call.error.slice(0, 500) : null })).value;
+  } catch (error) {
+    const withheld = error instanceof RedactionError ? error.message : 'redaction rules could not be loaded';
+    logged = { args: { withheld }, error: call.error ? `[withheld: ${withheld}]` : null };
+  }
+  await auditLog.append({
+    ts: call.startedAt,
+    tool: call.tool,
+    client,
+    session: call.sessionId ?? null,
+    namespace: NAMESPACE,
+    args: logged.args,
+    artifact_ids: affectedArtifacts(call),
+    outcome: call.isError ? 'error' : 'ok',
+    error: logged.error,
+    latency_ms: call.durationMs,
+  });
+}
+
+// Journals of the connected clients; see writeAutomaticHandoffs
+const sessionJournals = new Set<SessionJournal>();
+
+// Automatic handoffs still being written, so that shutdown can wait for them
+const pendingHandoffs = new Set<Promise<void>>();
+
+// Longest the process waits for automatic handoffs before exiting anyway
+const AUTOMATIC_HANDOFF_TIMEOUT_MS = 5_000;
+
+/**
+ * Whether a handoff written by a client itself (not an automatic one) ended
+ * after `since`, either stored already or still in the offline queue
+ */
+async function explicitHandoffSince(since: string): Promise<boolean> {
+  const isExplicit = (handoff: unknown) => {
+    const h = handoff as { ended_at?: unknown; context?: { automatic?: unknown } } | undefined;
+    return typeof h?.ended_at === 'string' && h.ended_at >= since && !h.context?.automatic;
+  };
+
+  const queued = await writeQueue.list().catch(() => []);
+  if (queued.some((q) => q.kind === 'session_end' && q.body.namespace === (NAMESPACE ?? undefined) && isExplicit(q.body.session_handoff))) {
+    return true;
+  }
+  const identity = await getIdentity();
+  return identity.success && isExplicit(identity.last_session);
+}
+
+/**
+ * Best-effort handoff for a client that wrote something since its last
+ * memdata_session_end, written through the same path as memdata_session_end
+ * (so it is queued if the API is unreachable). It is skipped if another client
+ * wrote its own handoff meanwhile, so it never takes the place of one.
+ */
+function writeAutomaticHandoff(journal: SessionJournal, reason: string): Promise<void> {
+  sessionJournals.delete(journal);
+  const handoff = journal.automaticHandoff(reason);
+  if (!handoff) return Promise.resolve();
+
+  const pending = (async () => {
+    if (await explicitHandoffSince(journal.startedAt)) {
+      console.error('Automatic session handoff skipped: a handoff was saved during this session');
+      return;
+    }
+    const result = await endSession(handoff.summary, undefined, handoff.context, journal.startedAt);
+    if (!result.success) {
+      console.error(`Automatic session handoff failed: ${result.message}`);
+    } else {
+      console.error(result.queuedId ? `Automatic session handoff queued (${result.queuedId})` : 'Saved automatic session handoff');
+    }
+  })()
+    .catch((error) => console.error('Automatic session handoff failed:', error))
+    .finally(() => pendingHandoffs.delete(pending));
+  pendingHandoffs.add(pending);
+  return pending;
+}
+
+/**
+ * Automatic handoffs for every connected client, waiting for those already
+ * under way
+ */
+async function writeAutomaticHandoffs(reason: string): Promise<void> {
+  for (const journal of [...sessionJournals]) writeAutomaticHandoff(journal, reason);
+  await Promise.allSettled([...pendingHandoffs]);
+}
+
+let shuttingDown = false;
+
+/**
+ * Write automatic handoffs, then exit with `code`
+ */
+function shutdown(reason: string, code: number): void {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  setTimeout(() => {
+    console.error('Automatic session handoff timed out');
+    process.exit(code);
+  }, AUTOMATIC_HANDOFF_TIMEOUT_MS).unref();
+  writeAutomaticHandoffs(reason).finally(() => process.exit(code));
+}
+
+/**
+ * Create an MCP server with all MemData tools registered.
+ * Each HTTP session gets its own instance; stdio uses a single one.
+ */
+function createServer(): McpServer {
+  const server = new McpServer({
+    name: 'memdata',
+    version: '1.0.0',
+  });
+
+  // What this client did since its last handoff, for an automatic handoff if it quits
+  // without one; every call also goes to the audit log when it is enabled. Tool handlers
+  // are registered through observe() for this.
+  const journal = new SessionJournal();
+  const observe = toolCallObserver((call) => {
+    journal.record(call);
+    if (auditLog) {
+      const client = server.server.getClientVersion();
+      auditToolCall(call, client ? `${client.name}/${client.version}` : null).catch((error) =>
+        console.error('Audit log write failed:', error)
+      );
+    }
+  });
+  sessionJournals.add(journal);
+  // An HTTP session that is deleted or expires gets its automatic handoff here
+  server.server.onclose = () => {
+    writeAutomaticHandoff(journal, 'session closed');
+  };
+
+  // Register ingest tool
+  server.registerTool(
+    'memdata_ingest',
+    {
+      description: 'Ingest text content into long-term memory for later retrieval. Use this to store important information, notes, decisions, or context that should be remembered across conversations.',
+      inputSchema: {
+        content: z.string().describe('Text content to store in memory'),
+        name: z.string().describe('Source name/identifier for this memory (e.g., "meeting-notes-2024-01-15", "project-decision", "user-preference")'),
+        tags: z.array(tagSchema).optional().describe('Tags for filtering later (e.g., ["billing", "decision"])'),
+        metadata: z.record(z.unknown()).optional().describe('Structured metadata to store with this memory (e.g., {"project": "billing", "kind": "adr"})'),
+        mode: z.enum(['append', 'upsert']).optional().default('append').describe('append (default) adds a new artifact; upsert replaces the artifact with the same name and keeps the old one in version history (see memdata_history)'),
+      },
+      outputSchema: ingestOutput,
+    },
+    observe('memdata_ingest', async ({ content, name, tags, metadata, mode }) => {
+      try {
+        const options = { tags, metadata };
+        const result = mode === 'upsert'
+          ? await upsertContent(content, name, options)
+          : { ...(await ingestContent(content, name, options)), replaced: [] as number[], notReplaced: [] as Array<{ artifact_id: string; error: string }> };
+
+        if (!result.success) {
+          return {
+            content: [{ type: 'text' as const, text: `Failed to ingest: ${result.message}` }],
+            isError: true,
+          };
+        }
+
+        const structured = {
+          status: result.queuedId ? ('queued' as const) : ('stored' as const),
+          source: name,
+          artifact_id: result.artifactId ?? null,
+          chunks: result.chunkCount ?? null,
+          tags: normalizeTags(tags),
+          queue_id: result.queuedId ?? null,
+          replaced_versions: result.replaced,
+          not_replaced: result.notReplaced,
+          redactions: result.redactions,
+        };
+
+        if (result.queuedId) {
+          return {
+            content: [
+              {
+                type: 'text' as const,
+                text: `⏳ API unavailable (${result.message}). Saved to the offline queue instead:\n- Source: ${name}\n- Queue ID: ${result.queuedId}${redactionNote(result.redactions)}\n\nIt will be stored automatically once the API is reachable. Use memdata_queue to check pending writes.`,
+              },
+            ],
+            structuredContent: structured,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `✅ Stored in memory:\n- Source: ${name}${tags?.length ? `\n- Tags: ${normalizeTags(tags).join(', ')}` : ''}\n- Chunks: ${result.chunkCount}\n- ID: ${result.artifactId}${result.replaced.length ? `\n- Replaced previous version${result.replaced.length === 1 ? '' : 's'} (saved as v${result.replaced.join(', v')})` : ''}${notReplacedNote(result.notReplaced)}${redactionNote(result.redactions)}\n\n🏷️ AI tagging & narrative extraction will run in background (~2 min).`,
+            },
+          ],
+          structuredContent: structured,
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{ type: 'text' as const, text: `Failed to ingest content: ${message}` }],
+          isError: true,
+        };
+      }
+    })
+  );
+
+  // Register file ingest tools
+  const formatFileResults = (results: FileIngestResult[]): string => {
+    const icons: Record<FileIngestResult['status'], string> = {
+      ingested: '✅',
+      updated: '🔄',
+      unchanged: '⏭️',
+      queued: '⏳',
+      skipped: '⚪',
+      failed: '❌',
+    };
+    const counts = new Map<string, number>();
+    results.forEach((r) => counts.set(r.status, (counts.get(r.status) || 0) + 1));
+
+    const summary = [...counts].map(([status, count]) => `${count} ${status}`).join(', ');
+    const lines = results.map((r) => {
+      let line = `${icons[r.status]} ${r.name} - ${r.status}`;
+      if (r.chunks !== undefined) line += ` (${r.chunks} chunks)`;
+      if (r.detail) line += `: ${r.detail}`;
+      return line;
+    });
+
+    return `Processed ${results.length} file${results.length === 1 ? '' : 's'} (${summary}):\n\n${lines.join('\n')}`;
+  };
+
+  const ingestFromDisk = async (pathOrGlob: string, root: string, force: boolean, maxFiles: number) => {
+    const files = await collectFiles(pathOrGlob, root, maxFiles);
+    if (files.length === 0) {
+      return {
+        content: [{ type: 'text' as const, text: `No files matched "${pathOrGlob}".` }],
+        structuredContent: { files: [] },
+      };
+    }
+
+    const results = await ingestFiles(files, root, {
+      apiUrl: MEMDATA_API_URL,
+      force,
+      manifest: ingestManifest,
+      handlers: {
+        ingest: async (content, name) => {
+          const result = await ingestContent(content, name);
+          return { ...result, note: result.redactions.length ? `redacted: ${describeRedactions(result.redactions)}` : undefined };
+        },
+        remove: deleteArtifact,
+        cancelQueued: async (queueId) => (await writeQueue.drop(queueId)) > 0,
+      },
+    });
+
+    return {
+      content: [{ type: 'text' as const, text: formatFileResults(results) }],
+      structuredContent: {
+        files: results.map((r) => ({
+          path: r.path,
+          name: r.name,
+          status: r.status,
+          artifact_id: r.artifactId ?? null,
+          chunks: r.chunks ?? null,
+          detail: r.detail ?? null,
+        })),
+      },
+      isError: results.every((r) => r.status === 'failed') || undefined,
+    };
+  };
+
+  server.registerTool(
+    'memdata_ingest_file',
+    {
+      description: 'Ingest one or more files from disk into memory without pasting their contents. Accepts a file path or a glob (e.g. "docs/*.md") inside the working directory; dotfiles such as .env are never ingested. The artifact is named after the path relative to the working directory. Unchanged files are skipped; changed files replace their previous version.',
+      inputSchema: {
+        path: z.string().describe('File path or glob, relative to the working directory (e.g., "README.md", "notes/**/*.md")'),
+        force: z.boolean().optional().default(false).describe('Re-ingest even if the file has not changed'),
+      },
+      outputSchema: fileIngestOutput,
+    },
+    observe('memdata_ingest_file', async ({ path, force }) => {
+      try {
+        return await ingestFromDisk(path, process.cwd(), force, MAX_INGEST_FILES);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{ type: 'text' as const, text: `Failed to ingest file: ${message}` }],
+          isError: true,
+        };
+      }
+    })
+  );
+
+  server.registerTool(
+    'memdata_ingest_dir',
+    {
+      description: 'Ingest the text, Markdown, code and JSON files in a directory into memory. Artifacts are named after each file\'s path relative to the directory. Unchanged files are skipped; changed files replace their previous version. Skips dotfiles, dot-directories, node_modules and build output.',
+      inputSchema: {
+        dir: z.string().describe('Directory to ingest, relative to the working directory (it must be inside it)'),
+        pattern: z.string().optional().describe('Optional glob within the directory (e.g., "**/*.md"). Defaults to all text files.'),
+        force: z.boolean().optional().default(false).describe('Re-ingest even if files have not changed'),
+        max_files: z.number().optional().default(100).describe(`Maximum number of files to process (default: 100, max: ${MAX_INGEST_FILES})`),
+      },
+      outputSchema: fileIngestOutput,
+    },
+    observe('memdata_ingest_dir', async ({ dir, pattern, force, max_files }) => {
+      try {
+        const root = await resolveInside(process.cwd(), dir);
+        return await ingestFromDisk(pattern || '.', root, force, Math.min(max_files, MAX_INGEST_FILES));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{ type: 'text' as const, text: `Failed to ingest directory: ${message}` }],
+          isError: true,
+        };
+      }
+    })
+  );
+
+  // Register version history tool
+  server.registerTool(
+    'memdata_history',
+    {
+      description: 'Show the version history of a memory stored with memdata_ingest mode "upsert". List versions, show or diff an older version against the current one, or restore it. History is kept on this machine, per API URL and namespace: upserts made elsewhere are not listed.',
+      inputSchema: {
+        name: z.string().describe('Source name of the memory (as passed to memdata_ingest)'),
+        action: z.enum(['list', 'show', 'diff', 'restore']).optional().default('list').describe('list versions, show one, diff it against the current version, or restore it'),
+        version: z.number().optional().describe('Version number for show, diff and restore (from action "list")'),
+      },
+      outputSchema: historyOutput,
+    },
+    observe('memdata_history', async ({ name, action, version }) => {
+      try {
+        const versions = await versionHistory.list(MEMDATA_API_URL, NAMESPACE, name);
+        const current = await findArtifactsByName(name);
+        const structured = {
+          name,
+          action,
+          current: current.map((c) => ({ id: c.id, date: c.date })),
+          versions: versions.map((v) => ({
+            version: v.version,
+            artifact_id: v.artifact_id,
+            created_at: v.created_at,
+            replaced_at: v.replaced_at,
+            chars: v.text.length,
+          })),
+        };
+
+        if (action === 'list') {
+          if (versions.length === 0 && current.length === 0) {
+            return {
+              content: [{ type: 'text' as const, text: `No memory named "${name}".` }],
+              structuredContent: structured,
+            };
+          }
+
+          let response = `# Versions of ${name}\n\n`;
+          current.forEach((c) => {
+            response += `- **current** (${c.date})\n  ID: ${c.id}\n`;
+          });
+          [...versions].reverse().forEach((v) => {
+            response += `- v${v.version} (created ${v.created_at.split('T')[0]}, replaced ${v.replaced_at.split('T')[0]}, ${v.text.length} chars)\n`;
+          });
+          if (versions.length === 0) {
+            response += `\n_No earlier versions. Use memdata_ingest with mode "upsert" to keep a history._`;
+          }
+          return {
+            content: [{ type: 'text' as const, text: response }],
+            structuredContent: structured,
+          };
+        }
+
+        const selected = versions.find((v) => v.version === version);
+        if (!selected) {
+          const available = versions.map((v) => `v${v.version}`).join(', ') || 'none';
+          return {
+            content: [{ type: 'text' as const, text: `Version ${version ?? '(missing)'} not found for "${name}". Available: ${available}` }],
+            isError: true,
+          };
+        }
+
+        const shown = { version: selected.version, created_at: selected.created_at, text: selected.text };
+
+        if (action === 'show') {
+          return {
+            content: [{ type: 'text' as const, text: `# ${name} v${selected.version} (created ${selected.created_at.split('T')[0]})\n\n${selected.text}` }],
+            structuredContent: { ...structured, version: shown },
+          };
+        }
+
+        if (action === 'diff') {
+          const latest = current.length ? await getArtifact(current[current.length - 1].id) : null;
+          const currentText = latest?.success ? latest.artifact.text : '';
+          const diff = lineDiff(selected.text, currentText);
+          return {
+            content: [
+              {
+                type: 'text' as const,
+                text: `Diff of ${name} v${selected.version} → current (- removed, + added):\n\n${diff}`,
+              },
+            ],
+            structuredContent: { ...structured, version: shown, diff },
+          };
+        }
+
+        const result = await upsertContent(selected.text, name, { tags: selected.tags, metadata: selected.metadata });
+        if (!result.success) {
+          return {
+            content: [{ type: 'text' as const, text: `Failed to restore: ${result.message}` }],
+            isError: true,
+          };
+        }
+        const restored = {
+          artifact_id: result.artifactId ?? null,
+          queue_id: result.queuedId ?? null,
+          replaced_versions: result.replaced,
+          not_replaced: result.notReplaced,
+        };
+        if (result.queuedId) {
+          return {
+            content: [{ type: 'text' as const, text: `⏳ API unavailable. Restore of v${selected.version} was queued (ID: ${result.queuedId}); it replaces the current version once delivered.` }],
+            structuredContent: { ...structured, version: shown, restored },
+          };
+        }
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Restored ${name} v${selected.version} as the current version (ID: ${result.artifactId}).${result.replaced.length ? ` The version it replaced was saved as v${result.replaced.join(', v')}.` : ''}${notReplacedNote(result.notReplaced)}`,
+            },
+          ],
+          structuredContent: { ...structured, version: shown, restored },
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{ type: 'text' as const, text: `Failed to get history: ${message}` }],
           isError: true,
         };
       }
+    })
+  );
+
+  // Register query tool
+  server.registerTool(
+    'memdata_query',
+    {
+      description: 'Search memory for relevant context based on a natural language query. Returns the most semantically similar stored content with similarity scores.',
+      inputSchema: {
+        query: z.string().describe('Natural language search query (e.g., "What did we decide about the database?", "meeting notes from last week")'),
+        limit: z.number().optional().default(5).describe('Maximum number of results to return (default: 5, max: 20)'),
+        min_score: z.number().min(0).max(1).optional().describe('Drop results scoring below this (0-1, e.g. 0.35 to skip weak matches)'),
+        max_per_source: z.number().int().min(1).optional().describe('Return at most this many chunks from the same source'),
+        diversity: z.number().min(0).max(1).optional().describe('0 (default) ranks by score only; higher values favour results that differ from those already picked (MMR)'),
+        tags: z.array(tagSchema).optional().describe('Only return memories that have all of these tags'),
+        metadata: z.record(z.unknown()).optional().describe('Only return memories whose metadata has these key/value pairs (e.g., {"project": "billing"})'),
+        scope: z.enum(['project', 'all']).optional().describe('project (default): current project namespace plus unscoped memories; all: every project'),
+        format: z.enum(RENDER_STYLES).optional().describe('Response style: markdown, compact (fewer tokens) or json (default: MEMDATA_FORMAT, otherwise markdown)'),
+      },
+      outputSchema: queryOutput,
+    },
+    observe('memdata_query', async ({ query, limit, min_score, max_per_source, diversity, tags, metadata, scope, format }) => {
+      try {
+        const rerankOptions = { limit: Math.min(limit, 20), minScore: min_score, maxPerSource: max_per_source, diversity };
+        const result = await queryMemory(query, candidateCount(rerankOptions), {
+          tags,
+          metadata,
+          scope,
+        });
 
-      const identity = result.identity!;
-      const stats = result.memory_stats!;
-      const recent = result.recent_activity || [];
+        if (!result.success) {
+          return {
+            content: [{ type: 'text' as const, text: `Failed to query: ${result.message}` }],
+            isError: true,
+          };
+        }
 
-      let response = `# Session Start\n\n`;
-      response += `**Name:** ${identity.agent_name || 'Not set'}\n`;
-      response += `**Identity:** ${identity.identity_summary || 'Not set'}\n`;
-      response += `**Session #:** ${identity.session_count}\n`;
+        const structured = {
+          query,
+          results: rerank(result.results || [], rerankOptions),
+          candidates: result.results?.length ?? 0,
+          narrative: result.narrative || {},
+          narrative_count: result.narrative_count ?? 0,
+        };
 
-      // Prompt to set identity if not configured
-      if (!identity.agent_name && !identity.identity_summary) {
-        response += `\n> 💡 **First time?** Set your identity with \`memdata_set_identity\` to personalize your memory.\n`;
+        return {
+          content: [{ type: 'text' as const, text: renderQuery(structured, renderOptions(format)) }],
+          structuredContent: structured,
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{ type: 'text' as const, text: `Failed to query memory: ${message}` }],
+          isError: true,
+        };
       }
+    })
+  );
+
+  // Register list tool
+  server.registerTool(
+    'memdata_list',
+    {
+      description: 'List stored memories/artifacts, newest first. Shows what content has been ingested with chunk counts and dates. Supports filtering by name, type and date, and paging with next_cursor. Use this to see what is in memory before querying or to find artifact IDs for deletion.',
+      inputSchema: {
+        limit: z.number().optional().default(20).describe('Maximum number of artifacts to return (default: 20, max: 50)'),
+        cursor: z.string().optional().describe('next_cursor from a previous memdata_list call to fetch the next page'),
+        name_prefix: z.string().optional().describe('Only artifacts whose name starts with this (e.g., "meeting-notes-")'),
+        name_contains: z.string().optional().describe('Only artifacts whose name contains this (case-insensitive)'),
+        type: z.string().optional().describe('Only artifacts of this type (e.g., "text")'),
+        since: z.string().optional().describe('ISO date - only artifacts created on or after this date'),
+        until: z.string().optional().describe('ISO date - only artifacts created on or before this date'),
+        sort: z.enum(['newest', 'oldest', 'name']).optional().describe('Sort order (default: newest)'),
+        tags: z.array(tagSchema).optional().describe('Only artifacts that have all of these tags'),
+        metadata: z.record(z.unknown()).optional().describe('Only artifacts whose metadata has these key/value pairs'),
+        scope: z.enum(['project', 'all']).optional().describe('project (default): current project namespace plus unscoped memories; all: every project'),
+      },
+      outputSchema: listOutput,
+    },
+    observe('memdata_list', async ({ limit, cursor, name_prefix, name_contains, type, since, until, sort, tags, metadata, scope }) => {
+      try {
+        const result = await listArtifacts(Math.min(limit, 50), {
+          cursor,
+          namePrefix: name_prefix,
+          nameContains: name_contains,
+          type,
+          since,
+          until,
+          sort,
+          tags,
+          metadata,
+          scope,
+        });
+
+        if (!result.success) {
+          return {
+            content: [{ type: 'text' as const, text: `Failed to list: ${result.message}` }],
+            isError: true,
+          };
+        }
+
+        const filtered = Boolean(name_prefix || name_contains || type || since || until || tags?.length || metadata);
+
+        if (!result.artifacts || result.artifacts.length === 0) {
+          let text = 'No memories stored yet. Use memdata_ingest to add content.';
+          if (cursor) text = 'No more memories.';
+          else if (filtered) text = 'No memories match these filters.';
+          return {
+            content: [{ type: 'text' as const, text }],
+            structuredContent: { artifacts: [], next_cursor: null },
+          };
+        }
+
+        const formatted = result.artifacts
+          .map((a) => `- ${a.name}${formatTags(a.tags)} (${a.chunks} chunks, ${a.date})\n  ID: ${a.id}`)
+          .join('\n');
 
-      response += `\n`;
+        const countNote = result.nextCursor
+          ? `\n\n_More memories available. Call memdata_list again with \`cursor: "${result.nextCursor}"\` for the next page._`
+          : '';
 
-      // Prioritize showing what we were working on - this is the most important continuity info
-      if (result.working_on) {
-        response += `## 🎯 Continue Working On\n${result.working_on}\n\n`;
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `${filtered ? 'Matching' : 'Stored'} memories (${result.artifacts.length}):\n\n${formatted}${countNote}`,
+            },
+          ],
+          structuredContent: { artifacts: result.artifacts, next_cursor: result.nextCursor ?? null },
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{ type: 'text' as const, text: `Failed to list memories: ${message}` }],
+          isError: true,
+        };
       }
+    })
+  );
+
+  // Register delete tool
+  server.registerTool(
+    'memdata_delete',
+    {
+      description: 'Delete a memory/artifact from storage. This permanently removes the content and all associated chunks. Use memdata_list to find artifact IDs.',
+      inputSchema: {
+        artifact_id: z.string().describe('The UUID of the artifact to delete (get this from memdata_list)'),
+        scope: z.enum(['project', 'all']).optional().describe('Use "all" to delete an artifact that belongs to another project namespace'),
+      },
+      outputSchema: deleteOutput,
+    },
+    observe('memdata_delete', async ({ artifact_id, scope }) => {
+      try {
+        const result = await deleteArtifact(artifact_id, scope);
+
+        if (!result.success) {
+          return {
+            content: [{ type: 'text' as const, text: `Failed to delete: ${result.message}` }],
+            isError: true,
+          };
+        }
 
-      if (result.last_session && Object.keys(result.last_session).length > 0) {
-        response += `## Last Session Handoff\n${JSON.stringify(result.last_session, null, 2)}\n\n`;
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Successfully deleted artifact and ${result.deletedChunks} chunks.`,
+            },
+          ],
+          structuredContent: { artifact_id, deleted_chunks: result.deletedChunks ?? null },
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{ type: 'text' as const, text: `Failed to delete: ${message}` }],
+          isError: true,
+        };
       }
+    })
+  );
+
+  // Register bulk delete tool
+  server.registerTool(
+    'memdata_delete_many',
+    {
+      description: 'Delete many memories at once, selected by name pattern, date range and/or tags. The first call is a dry run that lists what would be deleted and returns a confirm_token; call again with that token to actually delete.',
+      inputSchema: {
+        name_pattern: z.string().optional().describe('Source name pattern with * and ? wildcards (e.g., "scratch-*")'),
+        since: z.string().optional().describe('ISO date - only artifacts created on or after this date'),
+        until: z.string().optional().describe('ISO date - only artifacts created on or before this date'),
+        tags: z.array(tagSchema).optional().describe('Only artifacts that have all of these tags'),
+        scope: z.enum(['project', 'all']).optional().describe('project (default): current project namespace plus unscoped memories; all: every project'),
+        confirm_token: z.string().optional().describe('Token from the dry-run response. Deletes exactly the artifacts that were previewed.'),
+      },
+      outputSchema: deleteManyOutput,
+    },
+    observe('memdata_delete_many', async ({ name_pattern, since, until, tags, scope, confirm_token }, extra) => {
+      try {
+        const now = Date.now();
+        for (const [token, pending] of pendingBulkDeletes) {
+          if (pending.expires < now) pendingBulkDeletes.delete(token);
+        }
 
-      response += `## Memory Stats\n`;
-      response += `- Total memories: ${stats.total_memories}\n`;
-      response += `- Oldest: ${stats.oldest_memory || 'None'}\n`;
-      response += `- Newest: ${stats.newest_memory || 'None'}\n\n`;
+        if (confirm_token) {
+          const key = bulkDeleteKey(extra.sessionId, confirm_token);
+          const pending = pendingBulkDeletes.get(key);
+          if (!pending) {
+            return {
+              content: [{ type: 'text' as const, text: 'Invalid or expired confirm_token. Run memdata_delete_many without a token to get a new preview.' }],
+              isError: true,
+            };
+          }
+          pendingBulkDeletes.delete(key);
+
+          const deletedIds: string[] = [];
+          let deletedChunks = 0;
+          const failures: Array<{ id: string; error: string }> = [];
+          for (const id of pending.ids) {
+            const result = await deleteArtifact(id, pending.scope).catch((error) => ({
+              success: false,
+              deletedChunks: undefined,
+              message: error instanceof Error ? error.message : 'Unknown error',
+            }));
+            if (result.success) {
+              deletedIds.push(id);
+              deletedChunks += result.deletedChunks || 0;
+            } else {
+              failures.push({ id, error: result.message || 'Unknown error' });
+            }
+          }
+
+          const deleted = deletedIds.length;
+          let text = `Deleted ${deleted} of ${pending.ids.length} artifacts (${deletedChunks} chunks).`;
+          if (failures.length) text += `\n\nFailed:\n${failures.map((f) => `  - ${f.id}: ${f.error}`).join('\n')}`;
+          return {
+            content: [{ type: 'text' as const, text }],
+            structuredContent: {
+              dry_run: false,
+              artifacts: [],
+              total_chunks: deletedChunks,
+              confirm_token: null,
+              deleted,
+              deleted_chunks: deletedChunks,
+              deleted_ids: deletedIds,
+              failed: failures,
+            },
+            isError: deleted === 0 && failures.length > 0 ? true : undefined,
+          };
+        }
+
+        if (!name_pattern && !since && !until && !tags?.length) {
+          return {
+            content: [{ type: 'text' as const, text: 'Provide at least one filter (name_pattern, since, until or tags).' }],
+            isError: true,
+          };
+        }
 
-      // Deduplicate recent activity by source name (chunks from same artifact appear once)
-      if (recent.length > 0) {
+        const selected = await selectArtifacts({ namePattern: name_pattern, since, until, tags, scope });
+        if (selected.length === 0) {
+          return {
+            content: [{ type: 'text' as const, text: 'No memories match these filters. Nothing to delete.' }],
+            structuredContent: { dry_run: true, artifacts: [], total_chunks: 0, confirm_token: null, deleted: 0, deleted_chunks: 0, deleted_ids: [], failed: [] },
+          };
+        }
+        if (selected.length > MAX_BULK_DELETE) {
+          return {
+            content: [{ type: 'text' as const, text: `More than ${MAX_BULK_DELETE} memories match. Narrow the filters and try again.` }],
+            isError: true,
+          };
+        }
+
+        const token = randomBytes(12).toString('base64url');
+        pendingBulkDeletes.set(bulkDeleteKey(extra.sessionId, token), { ids: selected.map((a) => a.id), scope: scope || 'project', expires: now + BULK_DELETE_TOKEN_TTL_MS });
+
+        const totalChunks = selected.reduce((sum, a) => sum + a.chunks, 0);
+        const preview = selected
+          .slice(0, 50)
+          .map((a) => `- ${a.name}${formatTags(a.tags)} (${a.chunks} chunks, ${a.date})`)
+          .join('\n');
+        const more = selected.length > 50 ? `\n- ... and ${selected.length - 50} more` : '';
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `DRY RUN - nothing deleted yet.\n\nWould delete ${selected.length} memories (${totalChunks} chunks):\n\n${preview}${more}\n\nTo delete them, call memdata_delete_many again with \`confirm_token: "${token}"\` (valid for 10 minutes).`,
+            },
+          ],
+          structuredContent: {
+            dry_run: true,
+            artifacts: selected,
+            total_chunks: totalChunks,
+            confirm_token: token,
+            deleted: 0,
+            deleted_chunks: 0,
+            deleted_ids: [],
+            failed: [],
+          },
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{ type: 'text' as const, text: `Failed to delete: ${message}` }],
+          isError: true,
+        };
+      }
+    })
+  );
+
+  // Register status tool
+  server.registerTool(
+    'memdata_status',
+    {
+      description: 'Check the health and storage usage of your MemData account. Shows API connectivity and how much storage space is used.',
+      inputSchema: {
+        format: z.enum(RENDER_STYLES).optional().describe('Response style: markdown, compact (fewer tokens) or json (default: MEMDATA_FORMAT, otherwise markdown)'),
+      },
+      outputSchema: statusOutput,
+    },
+    observe('memdata_status', async ({ format }) => {
+      try {
+        const result = await getStatus();
+
+        if (!result.success) {
+          return {
+            content: [{ type: 'text' as const, text: `Failed to get status: ${result.message}` }],
+            isError: true,
+          };
+        }
+
+        const structured = {
+          healthy: Boolean(result.healthy),
+          storage: result.storage!,
+          namespace: NAMESPACE,
+          namespace_source: NAMESPACE_SOURCE,
+          cache: responseCache.stats(),
+        };
+
+        return {
+          content: [{ type: 'text' as const, text: renderStatus(structured, renderOptions(format)) }],
+          structuredContent: structured,
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{ type: 'text' as const, text: `Failed to get status: ${message}` }],
+          isError: true,
+        };
+      }
+    })
+  );
+
+  // Register profile tool
+  server.registerTool(
+    'memdata_profile',
+    {
+      description: 'Show or switch the active MemData profile (API key, URL, namespace and response defaults from ~/.memdata/config.json or the project .memdata.json). Switching applies to the whole server, so every connected client uses the new profile.',
+      inputSchema: {
+        action: z.enum(['show', 'list', 'switch']).optional().default('show').describe('show the active profile (default), list configured profiles, or switch (needs name)'),
+        name: z.string().optional().describe('Profile to switch to (switch)'),
+      },
+      outputSchema: profileOutput,
+    },
+    observe('memdata_profile', async ({ action, name }) => {
+      const fail = (text: string) => ({ content: [{ type: 'text' as const, text }], isError: true });
+      try {
+        // Pick up edits to the config files since startup
+        profileConfig = loadProfileConfig(CONFIG_PATH, process.cwd());
+
+        if (action === 'switch') {
+          if (!name) return fail('Pass the name of the profile to switch to (see action "list").');
+          if (!profileConfig.profiles[name]) {
+            const known = Object.keys(profileConfig.profiles);
+            return fail(`Unknown profile "${name}". ${known.length ? `Known profiles: ${known.join(', ')}` : `No profiles are configured in ${CONFIG_PATH} or ${PROJECT_CONFIG_FILE}.`}`);
+          }
+          // Each profile has its own queue, unless MEMDATA_QUEUE_PATH makes them share one; queued
+          // writes carry no credentials, so a shared queue would replay them against the new profile
+          const pending = process.env.MEMDATA_QUEUE_PATH ? (await writeQueue.list()).length : 0;
+          if (pending > 0) {
+            return fail(`${pending} offline write${pending === 1 ? ' is' : 's are'} still queued for the current profile. Flush or drop them with memdata_queue before switching.`);
+          }
+          const error = applyProfile({ name, source: 'memdata_profile' });
+          if (error) return fail(`Cannot switch: ${error}`);
+          responseCache.clear();
+          writeQueue.stop();
+          openProfileState();
+          if (!localStore) {
+            writeQueue.start(QUEUE_RETRY_INTERVAL_MS);
+            writeQueue.flush().catch((flushError) => console.error('Write queue flush failed:', flushError));
+          }
+        }
+
+        const structured = {
+          action,
+          active: {
+            name: activeProfile?.name ?? null,
+            source: activeProfile?.source ?? null,
+            api_url: MEMDATA_API_URL,
+            api_key: maskApiKey(MEMDATA_API_KEY),
+            local: Boolean(localStore),
+            namespace: NAMESPACE,
+            namespace_source: NAMESPACE_SOURCE,
+            format: RENDER_OPTIONS.style,
+            time_zone: TIME_ZONE,
+          },
+          profiles: Object.entries(profileConfig.profiles).map(([profileName, profile]) => ({
+            name: profileName,
+            file: profile.file,
+            api_url: profile.api_url ?? null,
+            namespace: profile.namespace ?? null,
+            active: profileName === activeProfile?.name,
+          })),
+          files: profileConfig.files,
+        };
+
+        const active = structured.active;
+        let text = action === 'switch' ? `Switched to profile "${name}".\n\n` : '';
+        text += `Active profile: ${active.name ? `${active.name} (from ${active.source})` : 'none (environment variables)'}\n`;
+        text += `- API: ${active.local ? `local store ${fileURLToPath(active.api_url)}` : active.api_url}\n`;
+        if (active.api_key) text += `- API key: ${active.api_key}\n`;
+        text += `- Namespace: ${active.namespace ? `${active.namespace} (from ${active.namespace_source})` : 'none (shared pool)'}\n`;
+        text += `- Format: ${active.format}, time zone: ${active.time_zone}`;
+
+        if (action === 'list') {
+          text += structured.profiles.length
+            ? `\n\nProfiles:\n${structured.profiles
+                .map((p) => `- ${p.name}${p.active ? ' (active)' : ''}: ${p.api_url || 'default API'}${p.namespace ? `, namespace ${p.namespace}` : ''} [${p.file}]`)
+                .join('\n')}`
+            : `\n\nNo profiles configured. Add them to ${CONFIG_PATH} or a project ${PROJECT_CONFIG_FILE}.`;
+        }
+
+        return {
+          content: [{ type: 'text' as const, text }],
+          structuredContent: structured,
+        };
+      } catch (error) {
+        return fail(`Failed to ${action} profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    })
+  );
+
+  // Register session start tool (renamed from whoami for clarity)
+  server.registerTool(
+    'memdata_session_start',
+    {
+      description: '🚀 CALL THIS FIRST at the start of every session. Returns your identity, what you were working on, last session handoff, recent activity, and memory stats. Essential for session continuity.',
+      inputSchema: {
+        format: z.enum(RENDER_STYLES).optional().describe('Response style: markdown, compact (fewer tokens) or json (default: MEMDATA_FORMAT, otherwise markdown)'),
+      },
+      outputSchema: sessionStartOutput,
+    },
+    observe('memdata_session_start', async ({ format }) => {
+      try {
+        const result = await getIdentity();
+
+        if (!result.success) {
+          return {
+            content: [{ type: 'text' as const, text: `Failed to get identity: ${result.message}` }],
+            isError: true,
+          };
+        }
+
+        // Deduplicate recent activity by source name (chunks from same artifact appear once)
         const seen = new Set<string>();
-        const uniqueRecent = recent.filter((r) => {
+        const recent = (result.recent_activity || []).filter((r) => {
           if (seen.has(r.source)) return false;
           seen.add(r.source);
           return true;
         });
 
-        response += `## Recent Activity\n`;
-        uniqueRecent.slice(0, 5).forEach((r) => {
-          response += `- ${r.source} (${r.date})\n`;
-        });
+        const structured = {
+          identity: result.identity!,
+          namespace: NAMESPACE,
+          working_on: result.working_on ?? null,
+          last_session: result.last_session && Object.keys(result.last_session).length > 0 ? result.last_session : null,
+          memory_stats: result.memory_stats!,
+          recent_activity: recent,
+        };
+
+        return {
+          content: [{ type: 'text' as const, text: renderSessionStart(structured, renderOptions(format)) }],
+          structuredContent: structured,
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{ type: 'text' as const, text: `Failed to get identity: ${message}` }],
+          isError: true,
+        };
       }
+    })
+  );
+
+  // Register session end tool
+  server.registerTool(
+    'memdata_session_end',
+    {
+      description: 'Save a session handoff before ending. Stores what you were working on and context for the next session. Call this before context compression or when ending a work session.',
+      inputSchema: {
+        summary: z.string().describe('Brief summary of what happened this session'),
+        working_on: z.string().optional().describe('What you are currently working on (will be shown at next session start)'),
+        context: z.record(z.unknown()).optional().describe('Additional context to preserve (JSON object)'),
+      },
+      outputSchema: sessionEndOutput,
+    },
+    observe('memdata_session_end', async ({ summary, working_on, context }) => {
+      try {
+        const result = await endSession(summary, working_on, context as Record<string, unknown>, journal.startedAt);
+
+        if (!result.success) {
+          return {
+            content: [{ type: 'text' as const, text: `Failed to save handoff: ${result.message}` }],
+            isError: true,
+          };
+        }
+
+        const saved = result.saved!;
+        const structured = {
+          status: result.queuedId ? ('queued' as const) : ('saved' as const),
+          working_on: saved.working_on ?? null,
+          summary: saved.summary,
+          queue_id: result.queuedId ?? null,
+          history_id: result.history?.artifactId ?? null,
+          redactions: result.redactions,
+        };
+        const historyNote = result.history?.message ? `\n\n⚠️ Not added to session history: ${result.history.message}` : '';
+
+        if (result.queuedId) {
+          return {
+            content: [
+              {
+                type: 'text' as const,
+                text: `⏳ API unavailable (${result.message}). Session handoff saved to the offline queue (ID: ${result.queuedId}) and will be sent automatically once the API is reachable.${result.redactions.length ? `\n\n🔒 Redacted: ${describeRedactions(result.redactions)}` : ''}${historyNote}`,
+              },
+            ],
+            structuredContent: structured,
+          };
+        }
 
-      // Remind about session_end if this isn't the first session
-      if (identity.session_count > 1 && !result.working_on) {
-        response += `\n> 💡 **Tip:** Use \`memdata_session_end\` before ending to preserve context for next time.\n`;
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Session handoff saved.\n\nNext session will see:\n- Working on: ${saved.working_on || 'Not specified'}\n- Summary: ${saved.summary.substring(0, 100)}...${redactionNote(result.redactions)}${historyNote}`,
+            },
+          ],
+          structuredContent: structured,
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{ type: 'text' as const, text: `Failed to save handoff: ${message}` }],
+          isError: true,
+        };
       }
+    })
+  );
+
+  // Register session history tool
+  server.registerTool(
+    'memdata_session_history',
+    {
+      description: 'Browse past session handoffs for this project. list shows the most recent sessions, search finds sessions about a topic, show returns one session in full (working_on, summary, context and timestamps). Use it to trace how work evolved across sessions.',
+      inputSchema: {
+        action: z.enum(['list', 'search', 'show']).optional().default('list').describe('list (default), search (needs query) or show (needs id)'),
+        query: z.string().optional().describe('What to search for (search)'),
+        id: z.string().optional().describe('Session id or name, e.g. "session-handoff/2026-10-19T14:02:11.303Z" (show)'),
+        range: z.string().optional().describe('Only sessions in this range, e.g. "last month", "since March", "2026-10-01 to 2026-10-15"'),
+        limit: z.number().int().min(1).max(20).optional().default(10).describe('Maximum sessions to return (default: 10, max: 20)'),
+        cursor: z.string().optional().describe('next_cursor from a previous list call'),
+        scope: z.enum(['project', 'all']).optional().describe('project (default): this project only; all: every project'),
+      },
+      outputSchema: sessionHistoryOutput,
+    },
+    observe('memdata_session_history', async ({ action, query, id, range, limit, cursor, scope }) => {
+      const fail = (text: string) => ({ content: [{ type: 'text' as const, text }], isError: true });
+      try {
+        let resolved;
+        try {
+          resolved = range ? resolveDateRange({ range }, { timeZone: TIME_ZONE }) : undefined;
+        } catch (error) {
+          return fail(`Invalid time range: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
 
-      return {
-        content: [{ type: 'text' as const, text: response }],
-      };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unknown error';
-      return {
-        content: [{ type: 'text' as const, text: `Failed to get identity: ${message}` }],
-        isError: true,
-      };
-    }
-  }
-);
+        let sessions: Array<SessionRecord & { score: number | null }> = [];
+        let nextCursor: string | undefined;
+
+        if (action === 'show') {
+          if (!id) return fail('Pass the id of the session to show (from a list or search result).');
+          const record = await getSessionRecord(id, scope);
+          if (!record) return fail(`Session "${id}" not found.`);
+          sessions = [{ ...record, score: null }];
+        } else if (action === 'search') {
+          if (!query) return fail('Pass a query to search past sessions.');
+          const result = await queryMemoryWithDates(query, limit * 2, resolved?.since, resolved?.until, { tags: [SESSION_TAG], scope });
+          if (!result.success) return fail(`Failed to search sessions: ${result.message}`);
+          // Several chunks of one session may match; keep each session's best
+          const best = new Map<string, number>();
+          for (const r of result.results || []) {
+            if (!best.has(r.source)) best.set(r.source, r.score);
+          }
+          const names = [...best.keys()].slice(0, limit);
+          const records = await Promise.all(names.map((name) => getSessionRecord(name, scope)));
+          sessions = records.flatMap((record, i) => (record ? [{ ...record, score: best.get(names[i])! }] : []));
+        } else {
+          const page = await listArtifacts(limit, {
+            tags: [SESSION_TAG],
+            since: resolved?.since,
+            until: resolved?.until,
+            sort: 'newest',
+            cursor,
+            scope,
+          });
+          if (!page.success) return fail(`Failed to list sessions: ${page.message}`);
+          const records = await Promise.all((page.artifacts || []).map((a) => getSessionRecord(a.id, scope)));
+          sessions = records.flatMap((record) => (record ? [{ ...record, score: null }] : []));
+          nextCursor = page.nextCursor;
+        }
 
-// Register session end tool
-server.tool(
-  'memdata_session_end',
-  'Save a session handoff before ending. Stores what you were working on and context for the next session. Call this before context compression or when ending a work session.',
-  {
-    summary: z.string().describe('Brief summary of what happened this session'),
-    working_on: z.string().optional().describe('What you are currently working on (will be shown at next session start)'),
-    context: z.record(z.unknown()).optional().describe('Additional context to preserve (JSON object)'),
-  },
-  async ({ summary, working_on, context }) => {
-    try {
-      const result = await endSession(summary, working_on, context as Record<string, unknown>);
+        const structured = {
+          action,
+          sessions,
+          range: resolved?.label ?? null,
+          next_cursor: nextCursor ?? null,
+        };
+
+        const when = (iso: string) => iso.replace('T', ' ').slice(0, 16);
+        let response: string;
+        if (action === 'show') {
+          const s = sessions[0];
+          response = `# Session ${when(s.ended_at)}\n\n`;
+          if (s.started_at) response += `- Started: ${s.started_at}\n`;
+          response += `- Ended: ${s.ended_at}\n`;
+          if (s.namespace) response += `- Project: ${s.namespace}\n`;
+          response += `- Working on: ${s.working_on || 'Not specified'}\n- Summary: ${s.summary}\n`;
+          const context = Object.entries(s.context);
+          if (context.length) {
+            response += `- Context:\n${context.map(([key, value]) => `  - ${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`).join('\n')}\n`;
+          }
+          response += `- ID: ${s.id}`;
+        } else if (sessions.length === 0) {
+          if (action === 'search') {
+            response = `No past sessions match "${query}"${resolved ? `, ${resolved.label}` : ''}.`;
+          } else if (resolved) {
+            response = `No past sessions, ${resolved.label}.`;
+          } else {
+            response = cursor ? 'No more sessions.' : 'No past sessions recorded yet. Sessions are recorded by memdata_session_end.';
+          }
+        } else {
+          response = `# Session History (${sessions.length}${resolved ? `, ${resolved.label}` : ''})\n\n`;
+          response += sessions
+            .map((s) => {
+              const score = s.score !== null ? ` · ${(s.score * 100).toFixed(0)}% match` : '';
+              const working = s.working_on ? `\n**Working on:** ${s.working_on}` : '';
+              return `## ${when(s.ended_at)}${score}\n**Summary:** ${s.summary}${working}\nID: ${s.id}`;
+            })
+            .join('\n\n');
+          if (nextCursor) {
+            response += `\n\n_More sessions available. Call memdata_session_history again with \`cursor: "${nextCursor}"\` for the next page._`;
+          }
+        }
 
-      if (!result.success) {
         return {
-          content: [{ type: 'text' as const, text: `Failed to save handoff: ${result.message}` }],
+          content: [{ type: 'text' as const, text: response }],
+          structuredContent: structured,
+        };
+      } catch (error) {
+        return fail(`Failed to get session history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    })
+  );
+
+  // Register identity update tool
+  server.registerTool(
+    'memdata_set_identity',
+    {
+      description: 'Set or update your agent identity. Use this to establish who you are and your purpose.',
+      inputSchema: {
+        agent_name: z.string().optional().describe('Your agent name (e.g., "MemBrain", "ResearchBot")'),
+        identity_summary: z.string().optional().describe('Brief description of who you are and your purpose'),
+      },
+      outputSchema: setIdentityOutput,
+    },
+    observe('memdata_set_identity', async ({ agent_name, identity_summary }) => {
+      try {
+        const result = await updateIdentity(agent_name, identity_summary);
+
+        if (!result.success) {
+          return {
+            content: [{ type: 'text' as const, text: `Failed to update identity: ${result.message}` }],
+            isError: true,
+          };
+        }
+        const saved = result.saved!;
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Identity updated:\n- Name: ${saved.agent_name || '(unchanged)'}\n- Summary: ${saved.identity_summary || '(unchanged)'}${redactionNote(result.redactions)}`,
+            },
+          ],
+          structuredContent: { agent_name: saved.agent_name || null, identity_summary: saved.identity_summary || null, redactions: result.redactions },
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{ type: 'text' as const, text: `Failed to update identity: ${message}` }],
           isError: true,
         };
       }
+    })
+  );
+
+  // Register relationships tool
+  server.registerTool(
+    'memdata_relationships',
+    {
+      description: 'Find entities related to a person, company, or concept in your memory. Shows who/what appears together in the same context.',
+      inputSchema: {
+        entity: z.string().describe('Name of the entity to find relationships for (e.g., "John Smith", "Acme Corp", "authentication")'),
+        type: z.string().optional().describe('Filter to specific entity type (person, company, project, topic, concept)'),
+        limit: z.number().optional().default(10).describe('Maximum relationships to return (default: 10)'),
+      },
+      outputSchema: relationshipsOutput,
+    },
+    observe('memdata_relationships', async ({ entity, type, limit }) => {
+      try {
+        const result = await getRelationships(entity, type, limit);
+
+        if (!result.success) {
+          return {
+            content: [{ type: 'text' as const, text: `Failed to get relationships: ${result.message}` }],
+            isError: true,
+          };
+        }
 
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: `Session handoff saved.\n\nNext session will see:\n- Working on: ${working_on || 'Not specified'}\n- Summary: ${summary.substring(0, 100)}...`,
+        if (!result.relationships || result.relationships.length === 0) {
+          return {
+            content: [{ type: 'text' as const, text: `No relationships found for "${entity}".` }],
+            structuredContent: { entity: result.entity_name || entity, entity_type: result.entity_type ?? null, relationships: [] },
+          };
+        }
+
+        let response = `# Relationships for ${result.entity_name} (${result.entity_type})\n\n`;
+        result.relationships.forEach((r) => {
+          response += `- **${r.name}** (${r.type}) - ${r.strength} co-occurrences\n`;
+        });
+
+        return {
+          content: [{ type: 'text' as const, text: response }],
+          structuredContent: {
+            entity: result.entity_name || entity,
+            entity_type: result.entity_type ?? null,
+            relationships: result.relationships,
           },
-        ],
-      };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unknown error';
-      return {
-        content: [{ type: 'text' as const, text: `Failed to save handoff: ${message}` }],
-        isError: true,
-      };
-    }
-  }
-);
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{ type: 'text' as const, text: `Failed to get relationships: ${message}` }],
+          isError: true,
+        };
+      }
+    })
+  );
+
+  // Register entity graph tool
+  server.registerTool(
+    'memdata_graph',
+    {
+      description: 'Explore how people, projects and concepts connect. Expands several hops of co-occurrences around an entity, or with `to` finds the chain of entities linking two of them. Returns a Mermaid or Graphviz DOT diagram plus nodes and edges.',
+      inputSchema: {
+        entity: z.string().describe('Entity to start from (e.g., "John Smith")'),
+        to: z.string().optional().describe('Find a path from entity to this entity instead of expanding around it'),
+        depth: z.number().int().min(1).max(6).optional().describe('Hops to expand (default 2, max 3); with `to`, the longest path to search (default 4, max 6)'),
+        types: z.array(z.string()).optional().describe('Only follow entities of these types (person, company, project, topic, concept)'),
+        min_strength: z.number().int().min(1).optional().describe('Ignore connections with fewer co-occurrences than this'),
+        limit: z.number().int().min(1).max(25).optional().default(10).describe('Relationships followed per entity (default: 10, max: 25)'),
+        max_nodes: z.number().int().min(2).max(200).optional().default(50).describe('Stop after this many entities (default: 50); bounds the number of lookups'),
+        diagram: z.enum(DIAGRAM_FORMATS).optional().default('mermaid').describe('Diagram to include: mermaid (default), dot or none'),
+      },
+      outputSchema: graphOutput,
+    },
+    observe('memdata_graph', async ({ entity, to, depth, types, min_strength, limit, max_nodes, diagram }) => {
+      try {
+        const loadRelationships = (name: string) => fetchNeighbourhood(name, limit);
+        const options = { types, minStrength: min_strength, maxNodes: max_nodes };
+        let graph: Graph;
+        let path: string[] | null = null;
+        let hops: number;
+
+        if (to) {
+          hops = depth ?? 4;
+          ({ graph, path } = await findPath(entity, to, loadRelationships, hops, options));
+        } else {
+          hops = Math.min(depth ?? 2, 3);
+          graph = await expandGraph(entity, loadRelationships, hops, options);
+        }
 
-// Register identity update tool
-server.tool(
-  'memdata_set_identity',
-  'Set or update your agent identity. Use this to establish who you are and your purpose.',
-  {
-    agent_name: z.string().optional().describe('Your agent name (e.g., "MemBrain", "ResearchBot")'),
-    identity_summary: z.string().optional().describe('Brief description of who you are and your purpose'),
-  },
-  async ({ agent_name, identity_summary }) => {
-    try {
-      const result = await updateIdentity(agent_name, identity_summary);
+        const rendered = graph.nodes.length === 0 || diagram === 'none' ? null : diagram === 'dot' ? toDot(graph) : toMermaid(graph);
+        const structured = {
+          entity: graph.nodes[0]?.name || entity,
+          target: to ?? null,
+          nodes: graph.nodes,
+          edges: graph.edges,
+          path,
+          explored: graph.explored,
+          truncated: graph.truncated,
+          diagram: rendered,
+        };
 
-      if (!result.success) {
+        let response: string;
+        if (to && !path) {
+          response = `No connection found between "${entity}" and "${to}" within ${hops} hops.`;
+          if (graph.truncated) {
+            response += ` Stopped after looking up ${graph.explored} entities; raise max_nodes to search further.`;
+          }
+        } else {
+          response = to
+            ? `# Path from ${path![0]} to ${path![path!.length - 1]}\n\n${path!.join(' → ')} (${path!.length - 1} hops)\n`
+            : `# Entity graph for ${structured.entity}\n\n${graph.nodes.length} entities, ${graph.edges.length} connections within ${hops} hops\n`;
+          if (!to && depth !== undefined && depth > hops) {
+            response += `\n_Expanded ${hops} hops rather than ${depth}: depth is capped at ${hops} without \`to\`._\n`;
+          }
+          if (graph.truncated) {
+            response += `\n_Stopped at ${max_nodes} entities; raise max_nodes or min_strength to see the rest._\n`;
+          }
+          if (rendered) {
+            response += `\n\`\`\`${diagram}\n${rendered}\n\`\`\`\n`;
+          } else {
+            const names = new Map(graph.nodes.map((n) => [n.id, n.name]));
+            response += '\n' + graph.edges.map((e) => `- **${names.get(e.from)}** — **${names.get(e.to)}** (${e.strength} co-occurrences)`).join('\n') + '\n';
+          }
+        }
+
+        return {
+          content: [{ type: 'text' as const, text: response }],
+          structuredContent: structured,
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{ type: 'text' as const, text: `Failed to build graph: ${message}` }],
+          isError: true,
+        };
+      }
+    })
+  );
+
+  // Register time-aware query tool
+  server.registerTool(
+    'memdata_query_timerange',
+    {
+      description: 'Search memory within a specific time range. Use for queries like "what did I work on last week" or "meetings from January". Pass the time range as written (e.g. range: "last week") - it is resolved locally in the user\'s time zone.',
+      inputSchema: {
+        query: z.string().describe('Natural language search query'),
+        range: z.string().optional().describe('Time range as words, e.g. "yesterday", "last week", "past 30 days", "since March", "Q3 2026", "between January and March"'),
+        since: z.string().optional().describe('Start of the range: ISO date (e.g., "2026-01-01") or expression (e.g., "March"); overrides the start of range'),
+        until: z.string().optional().describe('End of the range, inclusive: ISO date (e.g., "2026-01-31") or expression (e.g., "last week"); overrides the end of range'),
+        limit: z.number().optional().default(5).describe('Maximum number of results (default: 5, max: 20)'),
+        min_score: z.number().min(0).max(1).optional().describe('Drop results scoring below this (0-1, e.g. 0.35 to skip weak matches)'),
+        max_per_source: z.number().int().min(1).optional().describe('Return at most this many chunks from the same source'),
+        diversity: z.number().min(0).max(1).optional().describe('0 (default) ranks by score only; higher values favour results that differ from those already picked (MMR)'),
+        tags: z.array(tagSchema).optional().describe('Only return memories that have all of these tags'),
+        metadata: z.record(z.unknown()).optional().describe('Only return memories whose metadata has these key/value pairs (e.g., {"project": "billing"})'),
+        scope: z.enum(['project', 'all']).optional().describe('project (default): current project namespace plus unscoped memories; all: every project'),
+        format: z.enum(RENDER_STYLES).optional().describe('Response style: markdown, compact (fewer tokens) or json (default: MEMDATA_FORMAT, otherwise markdown)'),
+      },
+      outputSchema: timerangeQueryOutput,
+    },
+    observe('memdata_query_timerange', async ({ query, range, since, until, limit, min_score, max_per_source, diversity, tags, metadata, scope, format }) => {
+      let resolved;
+      try {
+        resolved = resolveDateRange({ range, since, until }, { timeZone: TIME_ZONE });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
         return {
-          content: [{ type: 'text' as const, text: `Failed to update identity: ${result.message}` }],
+          content: [{ type: 'text' as const, text: `Invalid time range: ${message}` }],
           isError: true,
         };
       }
 
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: `Identity updated:\n- Name: ${agent_name || '(unchanged)'}\n- Summary: ${identity_summary || '(unchanged)'}`,
-          },
-        ],
-      };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unknown error';
-      return {
-        content: [{ type: 'text' as const, text: `Failed to update identity: ${message}` }],
-        isError: true,
-      };
-    }
-  }
-);
+      try {
+        const rerankOptions = { limit: Math.min(limit, 20), minScore: min_score, maxPerSource: max_per_source, diversity };
+        const result = await queryMemoryWithDates(query, candidateCount(rerankOptions), resolved.since, resolved.until, {
+          tags,
+          metadata,
+          scope,
+        });
 
-// Register relationships tool
-server.tool(
-  'memdata_relationships',
-  'Find entities related to a person, company, or concept in your memory. Shows who/what appears together in the same context.',
-  {
-    entity: z.string().describe('Name of the entity to find relationships for (e.g., "John Smith", "Acme Corp", "authentication")'),
-    type: z.string().optional().describe('Filter to specific entity type (person, company, project, topic, concept)'),
-    limit: z.number().optional().default(10).describe('Maximum relationships to return (default: 10)'),
-  },
-  async ({ entity, type, limit }) => {
-    try {
-      const result = await getRelationships(entity, type, limit);
+        if (!result.success) {
+          return {
+            content: [{ type: 'text' as const, text: `Failed to query: ${result.message}` }],
+            isError: true,
+          };
+        }
+
+        const structured = {
+          query,
+          since: resolved.since ?? null,
+          until: resolved.until ?? null,
+          range: resolved.label,
+          time_zone: TIME_ZONE,
+          results: rerank(result.results || [], rerankOptions),
+          candidates: result.results?.length ?? 0,
+        };
 
-      if (!result.success) {
         return {
-          content: [{ type: 'text' as const, text: `Failed to get relationships: ${result.message}` }],
+          content: [{ type: 'text' as const, text: renderTimerangeQuery(structured, renderOptions(format)) }],
+          structuredContent: structured,
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{ type: 'text' as const, text: `Failed to query memory: ${message}` }],
           isError: true,
         };
       }
+    })
+  );
+
+  // Register narrative insights tool
+  server.registerTool(
+    'memdata_insights',
+    {
+      description: 'Get the narrative insights (decisions, causality, patterns, implications, gaps) extracted from memories about a topic, each with its supporting evidence and source chunk. Pass chunk_id to read the full text of the chunk an insight came from.',
+      inputSchema: {
+        topic: z.string().optional().describe('What to find insights about (e.g., "database choice")'),
+        types: z.array(z.enum(NARRATIVE_TYPES)).optional().describe('Insight types to include (default: all)'),
+        min_confidence: z.number().min(0).max(1).optional().default(0).describe('Only insights with at least this confidence (0-1)'),
+        limit: z.number().optional().default(10).describe('Number of memory chunks to draw insights from (default: 10, max: 20)'),
+        chunk_id: z.string().optional().describe('Expand this chunk id (from an insight) into its full text instead of searching'),
+        scope: z.enum(['project', 'all']).optional().describe('project (default): current project namespace plus unscoped memories; all: every project'),
+      },
+      outputSchema: insightsOutput,
+    },
+    observe('memdata_insights', async ({ topic, types, min_confidence, limit, chunk_id, scope }) => {
+      try {
+        if (chunk_id) {
+          const result = await getChunk(chunk_id, scope);
+          if (!result.success) {
+            return {
+              content: [{ type: 'text' as const, text: `Failed to get chunk: ${result.message}` }],
+              isError: true,
+            };
+          }
+
+          const chunk = result.chunk!;
+          const source = chunk.source ? `Source: ${chunk.source}${chunk.date ? ` (${chunk.date})` : ''}\n\n` : '';
+          return {
+            content: [{ type: 'text' as const, text: `# Chunk ${chunk.id}\n\n${source}${chunk.text}` }],
+            structuredContent: { topic: topic ?? null, insights: [], chunk },
+          };
+        }
+
+        if (!topic) {
+          return {
+            content: [{ type: 'text' as const, text: 'Provide a topic to find insights about, or a chunk_id to expand.' }],
+            isError: true,
+          };
+        }
+
+        const result = await queryMemory(topic, Math.min(limit, 20), { scope });
+        if (!result.success) {
+          return {
+            content: [{ type: 'text' as const, text: `Failed to get insights: ${result.message}` }],
+            isError: true,
+          };
+        }
+
+        // Insights point at chunks; name their source when the chunk was among the search results
+        const chunks = new Map((result.results || []).map((r) => [r.chunk_id, r]));
+        const categories = NARRATIVE_TYPES.filter((t) => !types?.length || types.includes(t));
+        const insights = categories.flatMap((category) =>
+          (result.narrative?.[category] || [])
+            .filter((n) => n.confidence >= min_confidence)
+            .sort((a, b) => b.confidence - a.confidence)
+            .map((n) => ({
+              ...n,
+              category,
+              source: chunks.get(n.chunk_id)?.source ?? null,
+              date: chunks.get(n.chunk_id)?.date ?? null,
+            }))
+        );
+        const structured = { topic, insights };
+
+        if (insights.length === 0) {
+          const threshold = min_confidence > 0 ? ` with confidence of at least ${Math.round(min_confidence * 100)}%` : '';
+          return {
+            content: [
+              {
+                type: 'text' as const,
+                text: `No insights found for "${topic}"${threshold}. Insights are extracted in the background a few minutes after memories are ingested.`,
+              },
+            ],
+            structuredContent: structured,
+          };
+        }
+
+        let response = `# Insights: ${topic} (${insights.length})\n`;
+        for (const category of categories) {
+          const items = insights.filter((n) => n.category === category);
+          if (items.length === 0) continue;
+          response += `\n## ${category.charAt(0).toUpperCase()}${category.slice(1)}\n`;
+          items.forEach((n) => {
+            response += `- ${n.content} (${Math.round(n.confidence * 100)}%)\n`;
+            if (n.evidence) response += `  Evidence: "${n.evidence}"\n`;
+            response += `  Source: ${n.source ? `${n.source}${n.date ? ` (${n.date})` : ''}, ` : ''}chunk ${n.chunk_id}\n`;
+          });
+        }
+        response += `\n_Call memdata_insights with a chunk_id to read the full source chunk._`;
 
-      if (!result.relationships || result.relationships.length === 0) {
         return {
-          content: [{ type: 'text' as const, text: `No relationships found for "${entity}".` }],
+          content: [{ type: 'text' as const, text: response }],
+          structuredContent: structured,
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{ type: 'text' as const, text: `Failed to get insights: ${message}` }],
+          isError: true,
         };
       }
+    })
+  );
+
+  // Register offline queue tool
+  server.registerTool(
+    'memdata_queue',
+    {
+      description: 'Show or manage writes (ingests and session handoffs) that were saved to the offline queue because the API was unreachable. Queued writes are retried automatically in the background.',
+      inputSchema: {
+        action: z.enum(['list', 'flush', 'drop']).optional().default('list').describe('list pending writes, flush (retry now, including previously rejected ones), or drop'),
+        queue_id: z.string().optional().describe('For drop: the queue ID to remove (omit to drop everything)'),
+      },
+      outputSchema: queueOutput,
+    },
+    observe('memdata_queue', async ({ action, queue_id }) => {
+      try {
+        if (action === 'flush') {
+          const result = await writeQueue.flush(true);
+          return {
+            content: [{ type: 'text' as const, text: `Flushed offline queue: ${result.sent} sent, ${result.remaining} still pending.` }],
+            structuredContent: { action, sent: result.sent, remaining: result.remaining },
+          };
+        }
 
-      let response = `# Relationships for ${result.entity_name} (${result.entity_type})\n\n`;
-      result.relationships.forEach((r) => {
-        response += `- **${r.name}** (${r.type}) - ${r.strength} co-occurrences\n`;
-      });
+        if (action === 'drop') {
+          const dropped = await writeQueue.drop(queue_id);
+          if (queue_id && dropped === 0) {
+            return {
+              content: [{ type: 'text' as const, text: `No queued write with ID ${queue_id}.` }],
+              isError: true,
+            };
+          }
+          return {
+            content: [{ type: 'text' as const, text: `Dropped ${dropped} queued write${dropped === 1 ? '' : 's'}.` }],
+            structuredContent: { action, dropped },
+          };
+        }
 
-      return {
-        content: [{ type: 'text' as const, text: response }],
-      };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unknown error';
-      return {
-        content: [{ type: 'text' as const, text: `Failed to get relationships: ${message}` }],
-        isError: true,
-      };
-    }
-  }
-);
+        const items = await writeQueue.list();
+        const structured = {
+          action,
+          items: items.map((i) => ({
+            id: i.id,
+            kind: i.kind,
+            label: i.label,
+            queued_at: i.queued_at,
+            attempts: i.attempts,
+            last_error: i.last_error ?? null,
+            failed: Boolean(i.failed),
+          })),
+        };
+        if (items.length === 0) {
+          return {
+            content: [{ type: 'text' as const, text: 'Offline queue is empty. All writes have been delivered.' }],
+            structuredContent: structured,
+          };
+        }
 
-// Register time-aware query tool
-server.tool(
-  'memdata_query_timerange',
-  'Search memory within a specific time range. Use for queries like "what did I work on last week" or "meetings from January".',
-  {
-    query: z.string().describe('Natural language search query'),
-    since: z.string().optional().describe('ISO date string - only return results after this date (e.g., "2026-01-01")'),
-    until: z.string().optional().describe('ISO date string - only return results before this date (e.g., "2026-01-31")'),
-    limit: z.number().optional().default(5).describe('Maximum number of results (default: 5, max: 20)'),
-  },
-  async ({ query, since, until, limit }) => {
-    try {
-      const result = await queryMemoryWithDates(query, Math.min(limit, 20), since, until);
+        const formatted = items
+          .map((i) => {
+            let line = `- [${i.kind}] ${i.label} (queued ${i.queued_at}, ${i.attempts} attempts)\n  Queue ID: ${i.id}`;
+            if (i.last_error) line += `\n  Last error${i.failed ? ' (rejected, retried on flush only)' : ''}: ${i.last_error}`;
+            return line;
+          })
+          .join('\n');
 
-      if (!result.success) {
         return {
-          content: [{ type: 'text' as const, text: `Failed to query: ${result.message}` }],
+          content: [{ type: 'text' as const, text: `Pending writes (${items.length}):\n\n${formatted}` }],
+          structuredContent: structured,
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{ type: 'text' as const, text: `Failed to manage queue: ${message}` }],
           isError: true,
         };
       }
+    })
+  );
+
+  // Register audit log tool
+  server.registerTool(
+    'memdata_audit',
+    {
+      description: 'Query the local audit log of MemData tool calls, newest first: when each tool was called, by which client, with which arguments, which memories it created or deleted, whether it worked and how long it took. Use it to find out who stored or deleted a memory. Only available when MEMDATA_AUDIT_LOG is set.',
+      inputSchema: {
+        tool: z.string().optional().describe('Only calls of this tool (e.g., "memdata_delete")'),
+        artifact_id: z.string().optional().describe('Only calls that created, replaced or deleted this artifact'),
+        outcome: z.enum(['ok', 'error']).optional().describe('Only successful or only failed calls'),
+        range: z.string().optional().describe('Only calls in this range, e.g. "today", "last week", "since 2026-10-01"'),
+        limit: z.number().int().min(1).max(200).optional().default(20).describe('Maximum entries to return (default: 20, max: 200)'),
+      },
+      outputSchema: auditOutput,
+    },
+    observe('memdata_audit', async ({ tool, artifact_id, outcome, range, limit }) => {
+      const fail = (text: string) => ({ content: [{ type: 'text' as const, text }], isError: true });
+      if (!auditLog) {
+        return fail('The audit log is off. Set MEMDATA_AUDIT_LOG=true (or a file path) in the server environment and restart to start recording tool calls.');
+      }
+      try {
+        let resolved;
+        try {
+          resolved = resolveDateRange({ range }, { timeZone: TIME_ZONE });
+        } catch (error) {
+          return fail(`Invalid time range: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
 
-      if (!result.results || result.results.length === 0) {
-        let msg = `No memories found for "${query}"`;
-        if (since || until) {
-          msg += ` in date range ${since || 'start'} to ${until || 'now'}`;
+        const { entries, more } = await auditLog.query({
+          tool,
+          outcome,
+          artifactId: artifact_id,
+          since: resolved.since,
+          until: resolved.until,
+          limit,
+        });
+        const structured = { path: auditLog.path, range: resolved.label, entries, more };
+        if (entries.length === 0) {
+          return {
+            content: [{ type: 'text' as const, text: `No audit entries match, ${resolved.label}.` }],
+            structuredContent: structured,
+          };
         }
+
+        const formatted = entries
+          .map((e) => {
+            let line = `- ${e.ts} ${e.tool} ${e.outcome === 'ok' ? 'ok' : 'FAILED'} (${e.latency_ms} ms${e.client ? `, ${e.client}` : ''})`;
+            const args = Object.entries(e.args).filter(([, v]) => v !== undefined);
+            if (args.length) line += `\n  Args: ${args.map(([k, v]) => `${k}=${JSON.stringify(v)}`).join(', ')}`;
+            if (e.artifact_ids.length) line += `\n  Artifacts: ${e.artifact_ids.join(', ')}`;
+            if (e.error) line += `\n  Error: ${e.error.split('\n')[0]}`;
+            return line;
+          })
+          .join('\n');
+        const footer = more ? `\n\nOlder entries match too; raise limit or narrow the range to see them.` : '';
+
         return {
-          content: [{ type: 'text' as const, text: msg }],
+          content: [{ type: 'text' as const, text: `Audit log (${entries.length} ${entries.length === 1 ? 'entry' : 'entries'}, ${resolved.label}):\n\n${formatted}${footer}` }],
+          structuredContent: structured,
         };
+      } catch (error) {
+        return fail(`Failed to read audit log: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
+    })
+  );
+
+  // Register export / import tools
+  server.registerTool(
+    'memdata_export',
+    {
+      description: 'Export every stored memory, plus identity and the session handoff, to a local archive file for backup or migration to another account or deployment.',
+      inputSchema: {
+        path: z.string().optional().describe('Archive path inside the working directory (default: memdata-export-<date>.jsonl). A .md extension writes a Markdown bundle.'),
+        format: z.enum(['jsonl', 'markdown']).optional().describe('Archive format (default: from the file extension, otherwise jsonl)'),
+        overwrite: z.boolean().optional().default(false).describe('Replace the file if it already exists'),
+        include_sessions: z.boolean().optional().default(false).describe(`Also export past session handoffs (tagged "${SESSION_TAG}") as memories`),
+      },
+      outputSchema: exportOutput,
+    },
+    observe('memdata_export', async ({ path, format, overwrite, include_sessions }) => {
+      try {
+        const target = path || `memdata-export-${new Date().toISOString().split('T')[0]}.${format === 'markdown' ? 'md' : 'jsonl'}`;
+        const result = await exportArchive(await resolveInside(process.cwd(), target), format || formatForPath(target), overwrite, include_sessions);
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Exported ${result.artifacts} memories and ${result.sessions} session handoff${result.sessions === 1 ? '' : 's'} to:\n${result.path}`,
+            },
+          ],
+          structuredContent: result,
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{ type: 'text' as const, text: `Failed to export: ${message}` }],
+          isError: true,
+        };
+      }
+    })
+  );
+
+  server.registerTool(
+    'memdata_import',
+    {
+      description: 'Import a memdata_export archive (JSONL or Markdown bundle). Keeps original names, dates and namespaces and skips memories that already exist with the same name and content in the same namespace.',
+      inputSchema: {
+        path: z.string().describe('Archive path inside the working directory'),
+      },
+      outputSchema: importOutput,
+    },
+    observe('memdata_import', async ({ path }) => {
+      try {
+        const result = await importArchive(await resolveInside(process.cwd(), path));
+        return {
+          content: [{ type: 'text' as const, text: formatImportSummary(result) }],
+          structuredContent: {
+            imported: result.imported,
+            skipped: result.skipped,
+            queued: result.queued,
+            failed: result.failed,
+            identity_restored: result.identityRestored,
+            session_restored: result.sessionRestored,
+          },
+          isError: result.failed.length > 0 && result.imported === 0 && result.skipped === 0 ? true : undefined,
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          content: [{ type: 'text' as const, text: `Failed to import: ${message}` }],
+          isError: true,
+        };
+      }
+    })
+  );
+
+  // Register resources so clients can browse and attach memories directly
+  server.registerResource(
+    'artifacts',
+    'memdata://artifacts',
+    {
+      title: 'Stored memories',
+      description: 'The most recent artifacts stored in MemData',
+      mimeType: 'application/json',
+    },
+    async (uri) => {
+      const result = await listArtifacts(50);
+      if (!result.success) {
+        throw new Error(`Failed to list: ${result.message}`);
+      }
+      return {
+        contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(result.artifacts, null, 2) }],
+      };
+    }
+  );
 
-      // Add match quality indicator based on score
-      const getMatchQuality = (score: number): string => {
-        if (score >= 0.7) return '🟢';
-        if (score >= 0.5) return '🟡';
-        if (score >= 0.35) return '🟠';
-        return '🔴';
+  server.registerResource(
+    'artifact',
+    new ResourceTemplate('memdata://artifact/{id}', {
+      list: async () => {
+        const result = await listArtifacts(50);
+        return {
+          resources: (result.artifacts || []).map((a) => ({
+            uri: `memdata://artifact/${a.id}`,
+            name: a.name,
+            description: `${a.chunks} chunks, ${a.date}`,
+            mimeType: 'text/plain',
+          })),
+        };
+      },
+    }),
+    {
+      title: 'Memory',
+      description: 'The full text of a stored artifact',
+      mimeType: 'text/plain',
+    },
+    async (uri, { id }) => {
+      const result = await getArtifact(String(id));
+      if (!result.success) {
+        throw new Error(`Failed to read artifact: ${result.message}`);
+      }
+      return {
+        contents: [{ uri: uri.href, mimeType: 'text/plain', text: result.artifact.text }],
       };
+    }
+  );
+
+  server.registerResource(
+    'identity',
+    'memdata://identity',
+    {
+      title: 'Agent identity',
+      description: 'Agent identity, what it was working on, the last session handoff and memory stats',
+      mimeType: 'application/json',
+    },
+    async (uri) => {
+      const result = await getIdentity();
+      if (!result.success) {
+        throw new Error(`Failed to get identity: ${result.message}`);
+      }
+      const { success: _success, ...identity } = result;
+      return {
+        contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(identity, null, 2) }],
+      };
+    }
+  );
+
+  // Register prompts that walk the model through the memory workflow
+  server.registerPrompt(
+    'resume-session',
+    {
+      title: 'Resume session',
+      description: 'Load identity, current focus and the last handoff from memory and pick up where the previous session left off',
+      argsSchema: {
+        focus: z.string().optional().describe('Optional topic to focus on when resuming'),
+      },
+    },
+    async ({ focus }) => {
+      const result = await getIdentity();
+      let text: string;
+
+      if (!result.success) {
+        text = `I could not load my memory (${result.message}). Call memdata_session_start to retry before continuing.`;
+      } else {
+        const identity = result.identity;
+        text = `Resume my previous session using this context from MemData.\n\n`;
+        text += `Name: ${identity?.agent_name || 'Not set'}\n`;
+        text += `Identity: ${identity?.identity_summary || 'Not set'}\n`;
+        text += `Working on: ${result.working_on || 'Not recorded'}\n`;
+        if (result.last_session && Object.keys(result.last_session).length > 0) {
+          text += `\nLast session handoff:\n${JSON.stringify(result.last_session, null, 2)}\n`;
+        }
+        if (result.recent_activity?.length) {
+          const sources = [...new Set(result.recent_activity.map((r) => r.source))].slice(0, 5);
+          text += `\nRecently stored: ${sources.join(', ')}\n`;
+        }
+        text += `\nSummarise where we left off in a few sentences, then propose the next step.`;
+      }
 
-      const formatted = result.results
-        .map((r, i) => `[${i + 1}] ${getMatchQuality(r.score)} ${(r.score * 100).toFixed(1)}% | ${r.date} | ${r.source}\n${r.text}`)
-        .join('\n\n---\n\n');
+      if (focus) {
+        text += ` Focus on: ${focus}. Use memdata_query to look up anything about it that is not in the handoff.`;
+      }
 
       return {
-        content: [
-          {
-            type: 'text' as const,
-            text: `Found ${result.results.length} memories:\n\n${formatted}`,
-          },
-        ],
+        messages: [{ role: 'user' as const, content: { type: 'text' as const, text } }],
       };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unknown error';
+    }
+  );
+
+  server.registerPrompt(
+    'write-handoff',
+    {
+      title: 'Write session handoff',
+      description: 'Summarise this session and save a handoff with memdata_session_end so the next session can continue',
+      argsSchema: {
+        notes: z.string().optional().describe('Anything that must be included in the handoff'),
+      },
+    },
+    async ({ notes }) => {
+      const result = await getIdentity();
+      const previous = result.success ? result.working_on : null;
+
+      let text = `We are about to end this session. Call memdata_session_end with:\n`;
+      text += `- summary: 2-4 sentences on what was done, what was decided and why\n`;
+      text += `- working_on: the single thing the next session should continue with\n`;
+      text += `- context: open questions, blockers, relevant file paths or artifact names\n`;
+      if (previous) {
+        text += `\nAt the start of this session we were working on: ${previous}. Say whether that is finished or still in progress.\n`;
+      }
+      if (notes) {
+        text += `\nMake sure the handoff includes: ${notes}\n`;
+      }
+      text += `\nStore any important decisions made this session with memdata_ingest first, so they are searchable later.`;
+
       return {
-        content: [{ type: 'text' as const, text: `Failed to query memory: ${message}` }],
-        isError: true,
+        messages: [{ role: 'user' as const, content: { type: 'text' as const, text } }],
       };
     }
-  }
-);
+  );
+
+  server.registerPrompt(
+    'recall-topic',
+    {
+      title: 'Recall topic',
+      description: 'Search memory for a topic and summarise what is known about it',
+      argsSchema: {
+        topic: z.string().describe('What to recall (e.g., "database choice", "onboarding flow")'),
+        limit: z.string().optional().describe('Maximum number of memories to include (default: 5)'),
+      },
+    },
+    async ({ topic, limit }) => {
+      const max = Math.min(Number(limit) || 5, 20);
+      const result = await queryMemory(topic, max).catch((error) => ({
+        success: false,
+        message: error instanceof Error ? error.message : 'Unknown error',
+        results: undefined,
+      }));
+
+      let text: string;
+      if (!result.success) {
+        text = `Memory search for "${topic}" failed (${result.message}). Retry with memdata_query.`;
+      } else if (!result.results?.length) {
+        text = `Memory has nothing stored about "${topic}". Say so, and ask whether I want to store what we know about it with memdata_ingest.`;
+      } else {
+        const memories = result.results
+          .map((r, i) => `[${i + 1}] ${r.source} (${(r.score * 100).toFixed(1)}%)\n${r.text}`)
+          .join('\n\n---\n\n');
+        text = `Here is what MemData has stored about "${topic}":\n\n${memories}\n\n`;
+        text += `Summarise what we know about ${topic}, noting the source of each point. Point out contradictions or outdated information, and say what is missing.`;
+      }
+
+      return {
+        messages: [{ role: 'user' as const, content: { type: 'text' as const, text } }],
+      };
+    }
+  );
+
+  return server;
+}
+
+/**
+ * Read a `--flag value` command-line argument
+ */
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
 
 // Start server
 async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error('MemData MCP server running');
-  console.error(`API: ${MEMDATA_API_URL}`);
+  const command = process.argv[2];
+
+  // One-off CLI commands: memdata-mcp export [file] [--overwrite] [--include-sessions] | memdata-mcp import <file>
+  // Unlike the tools, these accept any path: whoever runs them already has the shell.
+  if (command === 'export' || command === 'import') {
+    const path = process.argv.slice(3).find((arg) => !arg.startsWith('--'));
+    if (command === 'export') {
+      const target = path || `memdata-export-${new Date().toISOString().split('T')[0]}.jsonl`;
+      const result = await exportArchive(
+        resolve(process.cwd(), target),
+        formatForPath(target),
+        process.argv.includes('--overwrite'),
+        process.argv.includes('--include-sessions')
+      );
+      console.error(`Exported ${result.artifacts} memories and ${result.sessions} session handoffs to ${result.path}`);
+    } else {
+      if (!path) throw new Error('Usage: memdata-mcp import <archive>');
+      const result = await importArchive(resolve(process.cwd(), path));
+      console.error(formatImportSummary(result));
+    }
+    return;
+  }
+
+  const httpPort = getArg('http');
+
+  if (httpPort !== undefined) {
+    const port = Number(httpPort);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      throw new Error(`Invalid --http port: ${httpPort}`);
+    }
+    const host = getArg('host') || '127.0.0.1';
+    const token = process.env.MEMDATA_HTTP_TOKEN || getArg('token');
+    const sessionIdleMs = numberSetting('MEMDATA_HTTP_SESSION_IDLE_MS', process.env.MEMDATA_HTTP_SESSION_IDLE_MS);
+
+    const allowedHosts = (process.env.MEMDATA_HTTP_ALLOWED_HOSTS || '').split(',').map((name) => name.trim()).filter(Boolean);
+
+    await startHttpServer(createServer, { port, host, token, sessionIdleMs, allowedHosts });
+    console.error(`MemData MCP server listening on http://${host}:${port}/mcp`);
+    if (!token) {
+      console.error('Warning: no bearer token set (set MEMDATA_HTTP_TOKEN)');
+    } else if (!process.env.MEMDATA_HTTP_TOKEN) {
+      console.error('Warning: --token is visible to other users in the process list; prefer MEMDATA_HTTP_TOKEN');
+    }
+  } else {
+    const transport = new StdioServerTransport();
+    await createServer().connect(transport);
+    // The stdio transport does not notice the client going away on its own
+    process.stdin.once('end', () => shutdown('stdin closed', 0));
+    console.error('MemData MCP server running');
+  }
+
+  process.once('SIGINT', () => shutdown('SIGINT', 130));
+  process.once('SIGTERM', () => shutdown('SIGTERM', 143));
+
+  if (!localStore) {
+    writeQueue.start(QUEUE_RETRY_INTERVAL_MS);
+    writeQueue.flush().catch((error) => console.error('Write queue flush failed:', error));
+  }
+
+  if (activeProfile) console.error(`Profile: ${activeProfile.name} (from ${activeProfile.source})`);
+  console.error(NAMESPACE ? `Namespace: ${NAMESPACE} (from ${NAMESPACE_SOURCE})` : 'Namespace: none (shared pool)');
+  console.error(localStore ? `Local store: ${fileURLToPath(MEMDATA_API_URL)}` : `API: ${MEMDATA_API_URL}`);
+  if (auditLog) console.error(`Audit log: ${auditLog.path}`);
 }
 
 main().catch((error) => {
@@ -0,0 +1,205 @@
+/**
+ * Session journal
+ *
+ * Keeps track of what each connected client did since its last handoff -
+ * memories stored or deleted, identity changes - so that an automatic handoff
+ * can still be written if the client quits without calling memdata_session_end.
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+export interface ToolCall {
+  tool: string;
+  args: Record<string, unknown>;
+  /** structuredContent of the result, if any */
+  result?: Record<string, unknown>;
+  isError: boolean;
+  /** Error text shown to the model, when isError */
+  error?: string;
+  /** HTTP session id; undefined over stdio */
+  sessionId?: string;
+  startedAt: string;
+  durationMs: number;
+}
+
+/** Every tool here takes an input schema, so handlers get (args, extra) */
+type ToolHandler<Args, Extra> = (args: Args, extra: Extra) => CallToolResult | Promise<CallToolResult>;
+
+/** Wraps a tool handler so that its calls are reported; see toolCallObserver */
+export type ObserveTool = <Args extends Record<string, unknown>, Extra extends { sessionId?: string }>(
+  name: string,
+  handler: ToolHandler<Args, Extra>
+) => ToolHandler<Args, Extra>;
+
+/**
+ * Returns a wrapper for tool handlers that reports every call to `observer`:
+ * `server.registerTool(name, config, observe(name, handler))`. Observer errors
+ * are logged and never affect the tool result.
+ */
+export function toolCallObserver(observer: (call: ToolCall) => void): ObserveTool {
+  const report = (call: ToolCall) => {
+    try {
+      observer(call);
+    } catch (error) {
+      console.error('Tool call observer failed:', error);
+    }
+  };
+
+  return (name, handler) => async (args, extra) => {
+    const started = Date.now();
+    const call = { tool: name, args, sessionId: extra.sessionId, startedAt: new Date(started).toISOString() };
+    try {
+      const result = await handler(args, extra);
+      const error = result.isError ? result.content.find((c) => c.type === 'text')?.text : undefined;
+      report({ ...call, result: result.structuredContent, isError: Boolean(result.isError), error, durationMs: Date.now() - started });
+      return result;
+    } catch (error) {
+      report({ ...call, isError: true, error: error instanceof Error ? error.message : String(error), durationMs: Date.now() - started });
+      throw error;
+    }
+  };
+}
+
+function ids(...values: unknown[]): string[] {
+  return values.filter((v): v is string => typeof v === 'string' && v.length > 0);
+}
+
+/**
+ * Artifacts a tool call created, replaced or deleted
+ */
+export function affectedArtifacts(call: ToolCall): string[] {
+  const result = call.result || {};
+  switch (call.tool) {
+    case 'memdata_ingest':
+    case 'memdata_delete':
+      return ids(result.artifact_id);
+    case 'memdata_ingest_file':
+    case 'memdata_ingest_dir':
+      return ids(...((result.files as Array<{ artifact_id?: unknown }> | undefined) || []).map((f) => f.artifact_id));
+    case 'memdata_delete_many':
+      return ids(...((result.deleted_ids as unknown[] | undefined) || []));
+    case 'memdata_history':
+      return ids((result.restored as { artifact_id?: unknown } | undefined)?.artifact_id);
+    case 'memdata_session_end':
+      return ids(result.history_id);
+    default:
+      return [];
+  }
+}
+
+/** Tools that only read; counted in an automatic handoff, but not reported */
+const SEARCH_TOOLS = new Set([
+  'memdata_query',
+  'memdata_query_timerange',
+  'memdata_insights',
+  'memdata_relationships',
+  'memdata_graph',
+]);
+
+/** Calls kept per session; older ones only count towards the totals */
+const MAX_CALLS = 500;
+
+/** Items listed per category in an automatic handoff */
+const MAX_LISTED = 20;
+
+function quoteList(items: string[], max: number): string {
+  const shown = items.slice(0, max).map((item) => `"${item}"`).join(', ');
+  return items.length > max ? `${shown} and ${items.length - max} more` : shown;
+}
+
+export class SessionJournal {
+  private calls: ToolCall[] = [];
+  private total = 0;
+  /** When the session began: at connect, memdata_session_start or the last handoff */
+  startedAt = new Date().toISOString();
+
+  record(call: ToolCall): void {
+    if (call.tool === 'memdata_session_start') {
+      this.startedAt = call.startedAt;
+    }
+    // A handoff the client wrote covers everything so far; only later calls belong in an automatic one
+    if (call.tool === 'memdata_session_end' && !call.isError) {
+      this.calls = [];
+      this.total = 0;
+      this.startedAt = new Date().toISOString();
+      return;
+    }
+    this.calls.push(call);
+    this.total++;
+    if (this.calls.length > MAX_CALLS) this.calls.shift();
+  }
+
+  /**
+   * Summary and context for an automatic handoff, or null if the session wrote
+   * nothing since it began or since the client's own last handoff (searches
+   * and other reads do not count). Search terms are only counted, never
+   * repeated in the handoff.
+   */
+  automaticHandoff(reason: string): { summary: string; context: Record<string, unknown> } | null {
+    let searches = 0;
+    const stored: string[] = [];
+    const deleted: string[] = [];
+    let imported = 0;
+    let identityUpdated = false;
+    let errors = 0;
+
+    for (const call of this.calls) {
+      if (call.isError) {
+        errors++;
+        continue;
+      }
+      const { args, result = {} } = call;
+      if (SEARCH_TOOLS.has(call.tool) || (call.tool === 'memdata_session_history' && args.action === 'search')) {
+        searches++;
+      }
+      switch (call.tool) {
+        case 'memdata_ingest':
+          stored.push(String(args.name));
+          break;
+        case 'memdata_ingest_file':
+        case 'memdata_ingest_dir':
+          for (const file of (result.files as Array<{ name: string; status: string }> | undefined) || []) {
+            if (['ingested', 'updated', 'queued'].includes(file.status)) stored.push(file.name);
+          }
+          break;
+        case 'memdata_history':
+          if (result.restored) stored.push(String(args.name));
+          break;
+        case 'memdata_import':
+          imported += Number(result.imported) || 0;
+          break;
+        case 'memdata_delete':
+        case 'memdata_delete_many':
+          deleted.push(...affectedArtifacts(call));
+          break;
+        case 'memdata_set_identity':
+          identityUpdated = true;
+          break;
+      }
+    }
+
+    if (!stored.length && !deleted.length && !imported && !identityUpdated) return null;
+
+    const activity: string[] = [];
+    if (stored.length) activity.push(`stored ${quoteList(stored, 5)}`);
+    if (imported) activity.push(`imported ${imported} memories`);
+    if (deleted.length) activity.push(`deleted ${deleted.length} ${deleted.length === 1 ? 'memory' : 'memories'}`);
+    if (identityUpdated) activity.push('updated the agent identity');
+    if (searches) activity.push(`ran ${searches} ${searches === 1 ? 'search' : 'searches'}`);
+
+    return {
+      summary: `[automatic] Session ended (${reason}) without memdata_session_end. This session ${activity.join('; ')}.`,
+      context: {
+        automatic: true,
+        reason,
+        tool_calls: this.total,
+        failed_calls: errors,
+        searches,
+        stored: stored.slice(-MAX_LISTED),
+        deleted: deleted.slice(-MAX_LISTED),
+        imported,
+        identity_updated: identityUpdated,
+      },
+    };
+  }
+}
@@ -0,0 +1,516 @@
+/**
+ * Local MemData store
+ *
+ * An offline backend used when MEMDATA_API_URL is a file:// URL. It answers
+ * the same endpoints as the hosted API, so every tool behaves the same way,
+ * but keeps artifacts, chunks, identity and session handoffs in a JSON file
+ * on disk. Chunking is paragraph-based and search uses TF-IDF cosine scoring
+ * instead of embeddings.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, stat } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { acquireLock, writeFileAtomic } from './file-lock.js';
+
+interface StoredChunk {
+  id: string;
+  text: string;
+}
+
+interface StoredArtifact {
+  id: string;
+  source_name: string;
+  type: string;
+  created_at: string;
+  tags?: string[];
+  metadata?: Record<string, unknown>;
+  namespace?: string;
+  chunks: StoredChunk[];
+}
+
+interface StoredSessionState {
+  session_count: number;
+  working_on: string | null;
+  last_session: Record<string, unknown> | null;
+}
+
+interface StoredIdentity extends StoredSessionState {
+  agent_name: string | null;
+  identity_summary: string | null;
+  /** Session state per project namespace; the top-level fields are the shared pool's */
+  namespaces?: Record<string, StoredSessionState>;
+}
+
+interface StoreData {
+  version: 1;
+  artifacts: StoredArtifact[];
+  identity: StoredIdentity;
+}
+
+const CHUNK_SIZE = 1000;
+
+/**
+ * Split text into chunks of roughly CHUNK_SIZE characters, preferring
+ * paragraph and then sentence boundaries.
+ */
+function chunkText(content: string): string[] {
+  const paragraphs = content
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+
+  const pieces: string[] = [];
+  for (const paragraph of paragraphs) {
+    if (paragraph.length <= CHUNK_SIZE) {
+      pieces.push(paragraph);
+      continue;
+    }
+    const sentences = paragraph.match(/[^.!?]+[.!?]+\s*|[^.!?]+$/g) || [paragraph];
+    for (const sentence of sentences) {
+      for (let i = 0; i < sentence.length; i += CHUNK_SIZE) {
+        pieces.push(sentence.slice(i, i + CHUNK_SIZE).trim());
+      }
+    }
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 2 > CHUNK_SIZE) {
+      chunks.push(current);
+      current = piece;
+    } else {
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter((t) => t.length > 1);
+}
+
+function termFrequencies(tokens: string[]): Map<string, number> {
+  const tf = new Map<string, number>();
+  for (const token of tokens) {
+    tf.set(token, (tf.get(token) || 0) + 1);
+  }
+  return tf;
+}
+
+/**
+ * Parse a since/until bound. A date-only `until` covers the whole day.
+ */
+function parseBound(value: unknown, endOfDay: boolean = false): number {
+  if (typeof value !== 'string' || !value) return NaN;
+  const time = Date.parse(value);
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) return time + 24 * 60 * 60 * 1000 - 1;
+  return time;
+}
+
+/**
+ * True when the artifact has every requested tag and metadata value
+ */
+function matchesTags(artifact: StoredArtifact, tags: string[], metadata: Record<string, unknown> | null): boolean {
+  const own = artifact.tags || [];
+  if (!tags.every((t) => own.includes(t))) return false;
+  if (metadata) {
+    for (const [key, value] of Object.entries(metadata)) {
+      if (JSON.stringify(artifact.metadata?.[key]) !== JSON.stringify(value)) return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Unscoped artifacts are visible from every namespace
+ */
+function inNamespace(artifact: StoredArtifact, namespace: string | null): boolean {
+  return !namespace || !artifact.namespace || artifact.namespace === namespace;
+}
+
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' && value ? value : null;
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+function record(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+function emptyStore(): StoreData {
+  return {
+    version: 1,
+    artifacts: [],
+    identity: {
+      agent_name: null,
+      identity_summary: null,
+      session_count: 0,
+      working_on: null,
+      last_session: null,
+    },
+  };
+}
+
+export class LocalStore {
+  private data: StoreData | null = null;
+  /** Modification time and size of the file `data` was read from */
+  private loadedFrom: string | null = null;
+  private writing: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly path: string) {}
+
+  /**
+   * Handle a request the same way the hosted API would
+   */
+  async request(method: 'GET' | 'POST' | 'DELETE', endpoint: string, body?: Record<string, unknown>): Promise<unknown> {
+    const url = new URL(endpoint, 'file:///');
+    const route = url.pathname.replace(/^\/api\/memdata/, '');
+
+    if (method === 'POST' && route === '/ingest') return this.ingest(body || {});
+    if (method === 'POST' && route === '/query') return this.query(body || {});
+    if (method === 'GET' && route === '/artifacts') return this.listArtifacts(url.searchParams);
+    if (method === 'GET' && route.startsWith('/artifacts/')) {
+      return this.getArtifact(decodeURIComponent(route.slice('/artifacts/'.length)), url.searchParams.get('namespace'));
+    }
+    if (method === 'DELETE' && route.startsWith('/artifacts/')) {
+      return this.deleteArtifact(decodeURIComponent(route.slice('/artifacts/'.length)), url.searchParams.get('namespace'));
+    }
+    if (method === 'GET' && route.startsWith('/chunks/')) {
+      return this.getChunk(decodeURIComponent(route.slice('/chunks/'.length)), url.searchParams.get('namespace'));
+    }
+    if (method === 'GET' && route === '/identity') return this.getIdentity(url.searchParams.get('namespace'));
+    if (method === 'POST' && route === '/identity') return this.updateIdentity(body || {});
+    if (method === 'POST' && route === '/relationships') {
+      return { success: false, error: 'Relationships are not available with the local store' };
+    }
+    if (method === 'GET' && route === '/health') return { status: 'ok' };
+    if (method === 'GET' && route === '/usage') return this.usage();
+
+    return { success: false, error: `Unsupported local endpoint: ${method} ${url.pathname}` };
+  }
+
+  private async fileVersion(): Promise<string | null> {
+    try {
+      const info = await stat(this.path);
+      return `${info.mtimeMs}:${info.size}`;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      return null;
+    }
+  }
+
+  /**
+   * The store as on disk, read again whenever another process changed the file
+   */
+  private async load(): Promise<StoreData> {
+    const version = await this.fileVersion();
+    if (this.data && version === this.loadedFrom) return this.data;
+    try {
+      this.data = version ? (JSON.parse(await readFile(this.path, 'utf8')) as StoreData) : emptyStore();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      this.data = emptyStore();
+    }
+    this.loadedFrom = version;
+    return this.data;
+  }
+
+  /**
+   * Read-modify-write the store, serialised within this process and across
+   * processes sharing the file: the store is read again under the lock, so no
+   * other process's change is lost, then replaced atomically
+   */
+  private async update<T>(change: (data: StoreData) => T): Promise<T> {
+    const run = this.writing.catch(() => undefined).then(async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      const release = await acquireLock(`${this.path}.lock`, true);
+      if (!release) throw new Error(`Local store ${this.path} is locked by another process`);
+      try {
+        const data = await this.load();
+        const result = change(data);
+        await writeFileAtomic(this.path, JSON.stringify(data));
+        this.loadedFrom = await this.fileVersion();
+        return result;
+      } finally {
+        await release();
+      }
+    });
+    this.writing = run;
+    return run;
+  }
+
+  private async ingest(body: Record<string, unknown>) {
+    const content = typeof body.content === 'string' ? body.content : '';
+    const sourceName = typeof body.sourceName === 'string' ? body.sourceName : 'untitled';
+    const chunks = chunkText(content);
+
+    if (chunks.length === 0) {
+      return { success: false, error: 'Content is empty' };
+    }
+
+    const artifact: StoredArtifact = {
+      id: randomUUID(),
+      source_name: sourceName,
+      type: 'text',
+      created_at: typeof body.created_at === 'string' && !Number.isNaN(Date.parse(body.created_at))
+        ? new Date(body.created_at).toISOString()
+        : new Date().toISOString(),
+      tags: stringList(body.tags),
+      metadata: record(body.metadata) || {},
+      namespace: optionalString(body.namespace) || undefined,
+      chunks: chunks.map((text) => ({ id: randomUUID(), text })),
+    };
+    await this.update((data) => data.artifacts.push(artifact));
+
+    return { success: true, artifact_id: artifact.id, chunk_count: artifact.chunks.length };
+  }
+
+  private async query(body: Record<string, unknown>) {
+    const queryText = typeof body.query === 'string' ? body.query : '';
+    const limit = typeof body.limit === 'number' ? body.limit : 5;
+    const since = parseBound(body.since);
+    const until = parseBound(body.until, true);
+    const tags = stringList(body.tags);
+    const metadata = record(body.metadata);
+    const namespace = optionalString(body.namespace);
+
+    const data = await this.load();
+    const candidates = data.artifacts
+      .filter((a) => {
+        const created = Date.parse(a.created_at);
+        if (!inNamespace(a, namespace)) return false;
+        if (!matchesTags(a, tags, metadata)) return false;
+        if (!Number.isNaN(since) && created < since) return false;
+        if (!Number.isNaN(until) && created > until) return false;
+        return true;
+      })
+      .flatMap((a) => a.chunks.map((c) => ({ artifact: a, chunk: c, tf: termFrequencies(tokenize(c.text)) })));
+
+    // Inverse document frequency over the candidate chunks
+    const df = new Map<string, number>();
+    for (const { tf } of candidates) {
+      for (const term of tf.keys()) df.set(term, (df.get(term) || 0) + 1);
+    }
+    const idf = (term: string) => Math.log(1 + candidates.length / (1 + (df.get(term) || 0)));
+
+    const queryTf = termFrequencies(tokenize(queryText));
+    let queryNorm = 0;
+    for (const [term, count] of queryTf) queryNorm += (count * idf(term)) ** 2;
+    queryNorm = Math.sqrt(queryNorm);
+
+    const scored = candidates
+      .map(({ artifact, chunk, tf }) => {
+        let dot = 0;
+        let norm = 0;
+        for (const [term, count] of tf) {
+          const weight = count * idf(term);
+          norm += weight ** 2;
+          const queryCount = queryTf.get(term);
+          if (queryCount) dot += weight * queryCount * idf(term);
+        }
+        const score = dot > 0 ? dot / (Math.sqrt(norm) * queryNorm) : 0;
+        return { artifact, chunk, score };
+      })
+      .filter((r) => r.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    return {
+      success: true,
+      results: scored.map((r) => ({
+        chunk_id: r.chunk.id,
+        chunk_text: r.chunk.text,
+        source_name: r.artifact.source_name,
+        similarity_score: r.score,
+        created_at: r.artifact.created_at,
+        tags: r.artifact.tags || [],
+      })),
+      narrative_count: 0,
+    };
+  }
+
+  private async listArtifacts(params: URLSearchParams) {
+    const limit = Number(params.get('limit')) || 20;
+    const offset = Number(params.get('offset')) || 0;
+    const namePrefix = params.get('name_prefix');
+    const nameContains = params.get('name_contains')?.toLowerCase();
+    const type = params.get('type');
+    const since = parseBound(params.get('since'));
+    const until = parseBound(params.get('until'), true);
+    const sort = params.get('sort') || 'newest';
+    const tags = (params.get('tags') || '').split(',').filter(Boolean);
+    const metadata = params.get('metadata') ? record(JSON.parse(params.get('metadata')!)) : null;
+    const namespace = params.get('namespace');
+
+    const data = await this.load();
+    const matching = data.artifacts
+      .filter((a) => {
+        const created = Date.parse(a.created_at);
+        if (namePrefix && !a.source_name.startsWith(namePrefix)) return false;
+        if (nameContains && !a.source_name.toLowerCase().includes(nameContains)) return false;
+        if (type && a.type !== type) return false;
+        if (!inNamespace(a, namespace)) return false;
+        if (!matchesTags(a, tags, metadata)) return false;
+        if (!Number.isNaN(since) && created < since) return false;
+        if (!Number.isNaN(until) && created > until) return false;
+        return true;
+      })
+      .sort((a, b) => {
+        if (sort === 'name') return a.source_name.localeCompare(b.source_name);
+        if (sort === 'oldest') return a.created_at.localeCompare(b.created_at);
+        return b.created_at.localeCompare(a.created_at);
+      });
+
+    return {
+      success: true,
+      has_more: offset + limit < matching.length,
+      artifacts: matching.slice(offset, offset + limit).map((a) => ({
+        id: a.id,
+        source_name: a.source_name,
+        type: a.type,
+        chunk_count: a.chunks.length,
+        created_at: a.created_at,
+        tags: a.tags || [],
+        namespace: a.namespace ?? null,
+      })),
+    };
+  }
+
+  private async getArtifact(id: string, namespace: string | null) {
+    const data = await this.load();
+    const artifact = data.artifacts.find((a) => a.id === id && inNamespace(a, namespace));
+    if (!artifact) {
+      return { success: false, error: 'Artifact not found' };
+    }
+
+    return {
+      success: true,
+      artifact: {
+        id: artifact.id,
+        source_name: artifact.source_name,
+        type: artifact.type,
+        chunk_count: artifact.chunks.length,
+        created_at: artifact.created_at,
+        tags: artifact.tags || [],
+        metadata: artifact.metadata || {},
+        namespace: artifact.namespace ?? null,
+        chunks: artifact.chunks.map((c, i) => ({ id: c.id, chunk_index: i, chunk_text: c.text })),
+      },
+    };
+  }
+
+  private async getChunk(id: string, namespace: string | null) {
+    const data = await this.load();
+    for (const artifact of data.artifacts) {
+      if (!inNamespace(artifact, namespace)) continue;
+      const index = artifact.chunks.findIndex((c) => c.id === id);
+      if (index === -1) continue;
+      return {
+        success: true,
+        chunk: {
+          id,
+          chunk_index: index,
+          chunk_text: artifact.chunks[index].text,
+          artifact_id: artifact.id,
+          source_name: artifact.source_name,
+          created_at: artifact.created_at,
+        },
+      };
+    }
+    return { success: false, error: 'Chunk not found' };
+  }
+
+  private async deleteArtifact(id: string, namespace: string | null) {
+    const removed = await this.update((data) => {
+      const index = data.artifacts.findIndex((a) => a.id === id && inNamespace(a, namespace));
+      return index === -1 ? null : data.artifacts.splice(index, 1)[0];
+    });
+    if (!removed) {
+      return { success: false, error: 'Artifact not found' };
+    }
+
+    return {
+      success: true,
+      deleted_chunks: removed.chunks.length,
+      message: `Deleted ${removed.source_name}`,
+    };
+  }
+
+  /**
+   * Session state (working_on, last handoff, count) for a namespace
+   */
+  private sessionState(identity: StoredIdentity, namespace: string | null, create: boolean): StoredSessionState {
+    if (!namespace) return identity;
+    const existing = identity.namespaces?.[namespace];
+    if (existing || !create) return existing || { session_count: 0, working_on: null, last_session: null };
+    identity.namespaces = identity.namespaces || {};
+    return (identity.namespaces[namespace] = { session_count: 0, working_on: null, last_session: null });
+  }
+
+  private async getIdentity(namespace: string | null) {
+    const data = await this.load();
+    const state = this.sessionState(data.identity, namespace, false);
+    const byDate = data.artifacts
+      .filter((a) => inNamespace(a, namespace))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+    return {
+      success: true,
+      identity: {
+        agent_name: data.identity.agent_name,
+        identity_summary: data.identity.identity_summary,
+        session_count: state.session_count,
+      },
+      last_session: state.last_session || undefined,
+      working_on: state.working_on,
+      memory_stats: {
+        total_memories: byDate.length,
+        oldest_memory: byDate.length ? byDate[0].created_at.split('T')[0] : null,
+        newest_memory: byDate.length ? byDate[byDate.length - 1].created_at.split('T')[0] : null,
+      },
+      recent_activity: byDate
+        .slice(-10)
+        .reverse()
+        .map((a) => ({ source: a.source_name, date: a.created_at.split('T')[0] })),
+    };
+  }
+
+  private async updateIdentity(body: Record<string, unknown>) {
+    await this.update(({ identity }) => {
+      const state = this.sessionState(identity, optionalString(body.namespace), true);
+      if (typeof body.agent_name === 'string') identity.agent_name = body.agent_name;
+      if (typeof body.identity_summary === 'string') identity.identity_summary = body.identity_summary;
+      if (typeof body.working_on === 'string') state.working_on = body.working_on;
+      if (body.session_handoff && typeof body.session_handoff === 'object') {
+        state.last_session = body.session_handoff as Record<string, unknown>;
+        state.session_count += 1;
+      }
+    });
+
+    return { success: true, message: body.session_handoff ? 'Session handoff saved' : 'Identity updated' };
+  }
+
+  private async usage() {
+    let bytes = 0;
+    try {
+      bytes = (await stat(this.path)).size;
+    } catch {
+      // Store has not been written yet
+    }
+
+    return {
+      success: true,
+      usage: {
+        storage_used_mb: Math.round((bytes / (1024 * 1024)) * 100) / 100,
+        storage_limit_mb: 0,
+      },
+    };
+  }
+}
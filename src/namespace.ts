@@ -0,0 +1,91 @@
+/**
+ * Project namespaces
+ *
+ * Scopes memories to the current project so agents sharing an API key do not
+ * see each other's memories. The namespace comes from MEMDATA_NAMESPACE, or
+ * is derived from the git remote (or repository folder) of the working
+ * directory, falling back to the working directory's name. MEMDATA_NAMESPACE
+ * set to `none` opts out and uses one shared pool.
+ */
+
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import { basename, dirname, join, resolve } from 'node:path';
+
+/** MEMDATA_NAMESPACE values that turn namespacing off */
+const DISABLED = new Set(['none', 'off', 'global']);
+
+/** MEMDATA_NAMESPACE value that asks for the derived namespace explicitly, e.g. to override a profile */
+const AUTO = 'auto';
+
+/**
+ * Normalise a git remote URL to host/owner/repo, e.g.
+ * git@github.com:acme/api.git -> github.com/acme/api
+ */
+export function normalizeRemote(url: string): string {
+  return url
+    .trim()
+    .replace(/^[a-z+]+:\/\//i, '')
+    .replace(/^[^@/]+@/, '')
+    .replace(/^([^/:]+):(?!\d+\/)/, '$1/')
+    .replace(/:\d+\//, '/')
+    .replace(/\.git$/, '')
+    .replace(/\/+$/, '')
+    .toLowerCase();
+}
+
+/**
+ * Find the git directory for `cwd`, following `.git` files used by worktrees
+ */
+function findGitDir(cwd: string): { root: string; gitDir: string } | null {
+  let dir = resolve(cwd);
+  for (;;) {
+    const candidate = join(dir, '.git');
+    if (existsSync(candidate)) {
+      if (statSync(candidate).isDirectory()) return { root: dir, gitDir: candidate };
+      const match = /^gitdir:\s*(.+)$/m.exec(readFileSync(candidate, 'utf8'));
+      if (match) {
+        // Worktrees point at .git/worktrees/<name>; the config lives in the main .git
+        const gitDir = resolve(dir, match[1].trim());
+        const common = join(gitDir, 'commondir');
+        return { root: dir, gitDir: existsSync(common) ? resolve(gitDir, readFileSync(common, 'utf8').trim()) : gitDir };
+      }
+    }
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+function readOriginUrl(gitDir: string): string | null {
+  try {
+    const config = readFileSync(join(gitDir, 'config'), 'utf8');
+    const section = /\[remote "origin"\]([^[]*)/.exec(config);
+    const url = section && /^\s*url\s*=\s*(.+)$/m.exec(section[1]);
+    return url ? url[1].trim() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve the namespace for this process, or null to use the shared pool
+ */
+export function resolveNamespace(env: string | undefined, cwd: string): { namespace: string | null; source: string } {
+  const value = env?.trim() ?? '';
+  if (DISABLED.has(value.toLowerCase())) return { namespace: null, source: 'MEMDATA_NAMESPACE' };
+  if (value !== '' && value.toLowerCase() !== AUTO) return { namespace: value, source: 'MEMDATA_NAMESPACE' };
+
+  try {
+    const git = findGitDir(cwd);
+    if (git) {
+      const remote = readOriginUrl(git.gitDir);
+      if (remote) return { namespace: normalizeRemote(remote), source: 'git remote' };
+      return { namespace: basename(git.root), source: 'git repository' };
+    }
+  } catch {
+    // Unreadable .git; fall back to the directory name
+  }
+
+  const name = basename(resolve(cwd));
+  return name ? { namespace: name, source: 'working directory' } : { namespace: null, source: 'working directory' };
+}
@@ -0,0 +1,206 @@
+/**
+ * Secret and PII redaction
+ *
+ * Every write (ingest, session handoff, identity, import) passes through the
+ * Redactor before anything leaves the machine. Built-in detectors catch API
+ * keys, secrets assigned in config files, JWTs, private keys, email addresses
+ * and phone numbers; extra regex rules and per-detector actions come from a
+ * JSON rules file:
+ *
+ *   {
+ *     "builtins": { "email": "warn", "phone": "off" },
+ *     "rules": [{ "name": "customer_id", "pattern": "CUST-\\d{6}", "flags": "i", "action": "mask" }]
+ *   }
+ *
+ * Each rule either blocks the write, masks the match with [REDACTED:<rule>]
+ * or only warns.
+ */
+
+import { readFile } from 'node:fs/promises';
+
+export const REDACTION_ACTIONS = ['block', 'mask', 'warn'] as const;
+
+export type RedactionAction = (typeof REDACTION_ACTIONS)[number];
+
+interface RedactionRule {
+  name: string;
+  /** Must be global; a named group `secret` limits masking to that part of the match */
+  pattern: RegExp;
+  action: RedactionAction;
+}
+
+export interface RedactionFinding {
+  rule: string;
+  action: RedactionAction;
+  count: number;
+}
+
+interface RulesFile {
+  builtins?: Record<string, RedactionAction | 'off'>;
+  rules?: Array<{ name?: string; pattern?: string; flags?: string; action?: RedactionAction }>;
+}
+
+const BUILTIN_RULES: RedactionRule[] = [
+  {
+    name: 'private_key',
+    pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\s\S]*?(?:-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----|$)/g,
+    action: 'block',
+  },
+  {
+    name: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+    action: 'mask',
+  },
+  {
+    name: 'api_key',
+    pattern: new RegExp(
+      [
+        /\bmd_(?=[A-Za-z0-9]*\d)[A-Za-z0-9]{20,}\b/, // MemData
+        /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/, // OpenAI, Anthropic
+        /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/, // GitHub
+        /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/, // AWS access key id
+        /\bxox[abprs]-[A-Za-z0-9-]{10,}/, // Slack
+        /\bAIza[0-9A-Za-z_-]{35}/, // Google
+        /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}/, // Stripe
+      ]
+        .map((r) => r.source)
+        .join('|'),
+      'g'
+    ),
+    action: 'mask',
+  },
+  {
+    // KEY=value assignments in .env files, configs and shell exports
+    name: 'secret',
+    pattern: /\b[A-Za-z0-9_]*(?:api[_-]?key|secret|token|passw(?:or)?d)[A-Za-z0-9_]*["']?\s*[:=]\s*["']?(?<secret>(?!\[REDACTED)[^\s"',;]{8,})/gi,
+    action: 'mask',
+  },
+  {
+    name: 'email',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g,
+    action: 'mask',
+  },
+  {
+    name: 'phone',
+    // Needs separators between digit groups, so dates, versions and ids do not match
+    pattern: /(?<![\w+.-])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?|\d{2,4}[\s.-])\d{3,4}[\s.-]\d{3,4}(?![\w.-]*\d)/g,
+    action: 'mask',
+  },
+];
+
+/**
+ * Raised when a rule with the block action matches
+ */
+export class RedactionError extends Error {
+  constructor(readonly findings: RedactionFinding[]) {
+    const blocked = findings.filter((f) => f.action === 'block').map((f) => f.rule);
+    super(`Write blocked: content contains ${blocked.join(', ')}. Remove it and try again.`);
+    this.name = 'RedactionError';
+  }
+}
+
+export class Redactor {
+  private rules: Promise<RedactionRule[]> | null = null;
+
+  constructor(private readonly path: string) {}
+
+  /**
+   * Mask matches in every string inside `value` (object keys are left alone).
+   * Throws RedactionError if a blocking rule matches.
+   */
+  async redact<T>(value: T): Promise<{ value: T; findings: RedactionFinding[] }> {
+    const rules = await this.load();
+    const counts = new Map<RedactionRule, number>();
+
+    const visit = (item: unknown): unknown => {
+      if (typeof item === 'string') return this.apply(item, rules, counts);
+      if (Array.isArray(item)) return item.map(visit);
+      if (item && typeof item === 'object') {
+        return Object.fromEntries(Object.entries(item).map(([key, v]) => [key, visit(v)]));
+      }
+      return item;
+    };
+    const redacted = visit(value) as T;
+
+    const findings = [...counts].map(([rule, count]) => ({ rule: rule.name, action: rule.action, count }));
+    if (findings.some((f) => f.action === 'block')) throw new RedactionError(findings);
+    return { value: redacted, findings };
+  }
+
+  private apply(text: string, rules: RedactionRule[], counts: Map<RedactionRule, number>): string {
+    for (const rule of rules) {
+      text = text.replace(rule.pattern, (match: string, ...args: unknown[]) => {
+        counts.set(rule, (counts.get(rule) || 0) + 1);
+        if (rule.action !== 'mask') return match;
+        const groups = args[args.length - 1] as Record<string, string | undefined> | undefined;
+        const secret = typeof groups === 'object' ? groups?.secret : undefined;
+        const mask = `[REDACTED:${rule.name}]`;
+        return secret ? match.slice(0, match.lastIndexOf(secret)) + mask : mask;
+      });
+    }
+    return text;
+  }
+
+  /**
+   * Built-in rules with the rules file applied; a broken rules file fails
+   * every write rather than silently dropping the user's rules
+   */
+  private load(): Promise<RedactionRule[]> {
+    this.rules ||= this.read().catch((error) => {
+      this.rules = null;
+      throw error;
+    });
+    return this.rules;
+  }
+
+  private async read(): Promise<RedactionRule[]> {
+    let file: RulesFile = {};
+    try {
+      file = JSON.parse(await readFile(this.path, 'utf8')) as RulesFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(`Invalid redaction rules in ${this.path}: ${(error as Error).message}`);
+      }
+    }
+
+    const rules: RedactionRule[] = [];
+    for (const builtin of BUILTIN_RULES) {
+      const action = file.builtins?.[builtin.name] ?? builtin.action;
+      if (action === 'off') continue;
+      if (!REDACTION_ACTIONS.includes(action)) {
+        throw new Error(`Invalid redaction rules in ${this.path}: unknown action "${action}" for ${builtin.name}`);
+      }
+      rules.push({ ...builtin, action });
+    }
+
+    (file.rules || []).forEach((rule, i) => {
+      const name = rule.name || `rule_${i + 1}`;
+      const action = rule.action ?? 'mask';
+      if (!rule.pattern || !REDACTION_ACTIONS.includes(action)) {
+        throw new Error(`Invalid redaction rules in ${this.path}: ${name} needs a pattern and an action of block, mask or warn`);
+      }
+      try {
+        rules.push({ name, pattern: new RegExp(rule.pattern, `${(rule.flags || '').replace('g', '')}g`), action });
+      } catch (error) {
+        throw new Error(`Invalid redaction rules in ${this.path}: ${name}: ${(error as Error).message}`);
+      }
+    });
+
+    return rules;
+  }
+}
+
+/**
+ * One-line summary of findings, e.g. "masked 2 api_key, 1 email; warning: 1 phone (sent unchanged)"
+ */
+export function describeRedactions(findings: RedactionFinding[]): string {
+  const list = (action: RedactionAction) =>
+    findings
+      .filter((f) => f.action === action)
+      .map((f) => `${f.count} ${f.rule}`)
+      .join(', ');
+  const parts: string[] = [];
+  if (list('mask')) parts.push(`masked ${list('mask')}`);
+  if (list('warn')) parts.push(`warning: ${list('warn')} (sent unchanged)`);
+  return parts.join('; ');
+}
@@ -0,0 +1,265 @@
+/**
+ * Response rendering
+ *
+ * Turns the structured results of memdata_query, memdata_query_timerange,
+ * memdata_session_start and memdata_status into the text the model reads.
+ * Three styles are available:
+ *   - markdown: headings, match indicators and a score legend (the default)
+ *   - compact: one line per item, for clients that render Markdown badly
+ *     or when tokens matter
+ *   - json: the structured result as a single line of JSON
+ */
+
+import { NARRATIVE_TYPES } from './schemas.js';
+import type {
+  MemoryResultOutput,
+  QueryOutput,
+  SessionStartOutput,
+  StatusOutput,
+  TimerangeQueryOutput,
+} from './schemas.js';
+
+export const RENDER_STYLES = ['markdown', 'compact', 'json'] as const;
+
+export type RenderStyle = (typeof RENDER_STYLES)[number];
+
+export interface RenderOptions {
+  style: RenderStyle;
+  /** Append the match quality legend to query results */
+  legend: boolean;
+  /** Use emoji for match quality and section markers */
+  emoji: boolean;
+}
+
+function envFlag(value: string | undefined, fallback: boolean): boolean {
+  if (value === undefined || value.trim() === '') return fallback;
+  return !['0', 'false', 'no', 'off'].includes(value.trim().toLowerCase());
+}
+
+/**
+ * Read the default render options from MEMDATA_FORMAT, MEMDATA_LEGEND and
+ * MEMDATA_EMOJI. Unknown formats fall back to markdown.
+ */
+export function renderOptionsFromEnv(env: NodeJS.ProcessEnv): RenderOptions {
+  const format = (env.MEMDATA_FORMAT || '').trim().toLowerCase();
+  return {
+    style: RENDER_STYLES.find((style) => style === format) || 'markdown',
+    legend: envFlag(env.MEMDATA_LEGEND, true),
+    emoji: envFlag(env.MEMDATA_EMOJI, true),
+  };
+}
+
+/**
+ * Render tags after a source name, e.g. " [billing, decision]"
+ */
+export function formatTags(tags: string[]): string {
+  return tags.length ? ` [${tags.join(', ')}]` : '';
+}
+
+function matchQuality(score: number): string {
+  if (score >= 0.7) return '🟢'; // Strong match
+  if (score >= 0.5) return '🟡'; // Good match
+  if (score >= 0.35) return '🟠'; // Partial match
+  return '🔴'; // Weak match
+}
+
+function percent(score: number, digits: number): string {
+  return `${(score * 100).toFixed(digits)}%`;
+}
+
+function singleLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function renderResults(results: MemoryResultOutput[], options: RenderOptions, withDate: boolean): string {
+  if (options.style === 'compact') {
+    return results
+      .map((r, i) => `[${i + 1}] ${percent(r.score, 0)} ${r.source}${formatTags(r.tags)}${withDate && r.date ? ` (${r.date})` : ''}: ${singleLine(r.text)}`)
+      .join('\n');
+  }
+
+  return results
+    .map((r, i) => {
+      const quality = options.emoji ? `${matchQuality(r.score)} ` : '';
+      const date = withDate ? `${r.date} | ` : '';
+      return `[${i + 1}] ${quality}${percent(r.score, 1)} | ${date}${r.source}${formatTags(r.tags)}\n${r.text}`;
+    })
+    .join('\n\n---\n\n');
+}
+
+function renderNarrative(narrative: QueryOutput['narrative'], options: RenderOptions): string {
+  const parts: string[] = [];
+  for (const type of NARRATIVE_TYPES) {
+    const insights = narrative[type];
+    if (!insights?.length) continue;
+    const items = insights.map((n) => `${n.content} (${Math.round(n.confidence * 100)}%)`);
+    parts.push(
+      options.style === 'compact'
+        ? `${type}: ${items.join('; ')}`
+        : `${type.toUpperCase()}:\n${items.map((item) => `  • ${item}`).join('\n')}`
+    );
+  }
+
+  if (parts.length === 0) return '';
+  return options.style === 'compact'
+    ? `\n\nInsights:\n${parts.join('\n')}`
+    : `\n\n═══ NARRATIVE INSIGHTS ═══\n${parts.join('\n\n')}`;
+}
+
+export function renderQuery(data: QueryOutput, options: RenderOptions): string {
+  if (options.style === 'json') return JSON.stringify(data);
+  if (data.results.length === 0) return 'No relevant memories found for this query.';
+
+  const narrative = data.narrative_count > 0 ? renderNarrative(data.narrative, options) : '';
+  if (options.style === 'compact') {
+    return `${data.results.length} memories:\n${renderResults(data.results, options, false)}${narrative}`;
+  }
+
+  const legend = options.legend
+    ? options.emoji
+      ? '\n\n---\n_Match quality: 🟢 >70% strong | 🟡 >50% good | 🟠 >35% partial | 🔴 weak_'
+      : '\n\n---\n_Match quality: >70% strong | >50% good | >35% partial | lower is weak_'
+    : '';
+  return `Found ${data.results.length} relevant memories:\n\n${renderResults(data.results, options, false)}${narrative}${legend}`;
+}
+
+export function renderTimerangeQuery(data: TimerangeQueryOutput, options: RenderOptions): string {
+  if (options.style === 'json') return JSON.stringify(data);
+  if (data.results.length === 0) {
+    let msg = `No memories found for "${data.query}"`;
+    if (data.since || data.until) {
+      msg += `, ${data.range}`;
+    }
+    return msg;
+  }
+
+  return options.style === 'compact'
+    ? `${data.results.length} memories, ${data.range}:\n${renderResults(data.results, options, true)}`
+    : `Found ${data.results.length} memories, ${data.range}:\n\n${renderResults(data.results, options, true)}`;
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Render a session handoff as a list instead of a raw JSON dump
+ */
+function renderHandoff(handoff: Record<string, unknown>): string {
+  const { summary, started_at, ended_at, context, ...rest } = handoff;
+  const lines: string[] = [];
+  if (summary !== undefined) lines.push(`- Summary: ${formatValue(summary)}`);
+  if (started_at !== undefined) lines.push(`- Started: ${formatValue(started_at)}`);
+  if (ended_at !== undefined) lines.push(`- Ended: ${formatValue(ended_at)}`);
+  for (const [key, value] of Object.entries(rest)) {
+    lines.push(`- ${key}: ${formatValue(value)}`);
+  }
+  if (context && typeof context === 'object' && !Array.isArray(context)) {
+    const entries = Object.entries(context as Record<string, unknown>);
+    if (entries.length) {
+      lines.push('- Context:');
+      entries.forEach(([key, value]) => lines.push(`  - ${key}: ${formatValue(value)}`));
+    }
+  } else if (context !== undefined) {
+    lines.push(`- Context: ${formatValue(context)}`);
+  }
+  return lines.join('\n');
+}
+
+export function renderSessionStart(data: SessionStartOutput, options: RenderOptions): string {
+  if (options.style === 'json') return JSON.stringify(data);
+
+  const { identity, memory_stats: stats } = data;
+
+  if (options.style === 'compact') {
+    const lines = [
+      `Session ${identity.session_count} | Name: ${identity.agent_name || 'not set'}${data.namespace ? ` | Project: ${data.namespace}` : ''}`,
+    ];
+    if (identity.identity_summary) lines.push(`Identity: ${identity.identity_summary}`);
+    if (data.working_on) lines.push(`Working on: ${data.working_on}`);
+    if (data.last_session) {
+      const { summary, ended_at } = data.last_session;
+      const when = typeof ended_at === 'string' ? ` (${ended_at.split('T')[0]})` : '';
+      lines.push(`Last session${when}: ${summary !== undefined ? singleLine(formatValue(summary)) : singleLine(JSON.stringify(data.last_session))}`);
+    }
+    lines.push(`Memories: ${stats.total_memories}${stats.oldest_memory ? ` (${stats.oldest_memory} to ${stats.newest_memory})` : ''}`);
+    if (data.recent_activity.length) {
+      lines.push(`Recent: ${data.recent_activity.slice(0, 5).map((r) => r.source).join(', ')}`);
+    }
+    return lines.join('\n');
+  }
+
+  const tip = options.emoji ? '💡 ' : '';
+  let response = `# Session Start\n\n`;
+  response += `**Name:** ${identity.agent_name || 'Not set'}\n`;
+  response += `**Identity:** ${identity.identity_summary || 'Not set'}\n`;
+  response += `**Session #:** ${identity.session_count}\n`;
+  if (data.namespace) {
+    response += `**Project:** ${data.namespace}\n`;
+  }
+
+  // Prompt to set identity if not configured
+  if (!identity.agent_name && !identity.identity_summary) {
+    response += `\n> ${tip}**First time?** Set your identity with \`memdata_set_identity\` to personalize your memory.\n`;
+  }
+
+  response += `\n`;
+
+  // Prioritize showing what we were working on - this is the most important continuity info
+  if (data.working_on) {
+    response += `## ${options.emoji ? '🎯 ' : ''}Continue Working On\n${data.working_on}\n\n`;
+  }
+
+  if (data.last_session) {
+    response += `## Last Session Handoff\n${renderHandoff(data.last_session)}\n\n`;
+  }
+
+  response += `## Memory Stats\n`;
+  response += `- Total memories: ${stats.total_memories}\n`;
+  response += `- Oldest: ${stats.oldest_memory || 'None'}\n`;
+  response += `- Newest: ${stats.newest_memory || 'None'}\n\n`;
+
+  if (data.recent_activity.length > 0) {
+    response += `## Recent Activity\n`;
+    data.recent_activity.slice(0, 5).forEach((r) => {
+      response += `- ${r.source} (${r.date})\n`;
+    });
+  }
+
+  // Remind about session_end if this isn't the first session
+  if (identity.session_count > 1 && !data.working_on) {
+    response += `\n> ${tip}**Tip:** Use \`memdata_session_end\` before ending to preserve context for next time.\n`;
+  }
+
+  return response;
+}
+
+export function renderStatus(data: StatusOutput, options: RenderOptions): string {
+  if (options.style === 'json') return JSON.stringify(data);
+
+  const health = data.healthy ? 'Healthy' : 'Unhealthy';
+  const { storage } = data;
+  const namespace = data.namespace ? `${data.namespace} (from ${data.namespace_source})` : 'none (shared pool)';
+  const cache = renderCacheStats(data.cache);
+
+  if (options.style === 'compact') {
+    return `API: ${health.toLowerCase()} | Storage: ${storage.used_mb}/${storage.limit_mb} MB (${storage.percent}%) | Namespace: ${namespace} | Cache: ${cache}`;
+  }
+
+  let text = `MemData Status:\n- API: ${health}\n- Storage: ${storage.used_mb} MB / ${storage.limit_mb} MB (${storage.percent}% used)\n- Namespace: ${namespace}\n- Cache: ${cache}`;
+  const operations = Object.entries(data.cache.operations);
+  if (data.cache.enabled && operations.length) {
+    text += '\n' + operations.map(([name, counts]) => `  - ${name}: ${hitRate(counts.hits, counts.misses)}`).join('\n');
+  }
+  return text;
+}
+
+function hitRate(hits: number, misses: number): string {
+  const lookups = hits + misses;
+  return lookups ? `${Math.round((hits / lookups) * 100)}% hit rate (${hits}/${lookups})` : 'no lookups yet';
+}
+
+function renderCacheStats(cache: StatusOutput['cache']): string {
+  if (!cache.enabled) return 'disabled';
+  return `${hitRate(cache.hits, cache.misses)}, ${cache.entries}/${cache.max_entries} entries, ${Math.round(cache.ttl_ms / 1000)}s TTL`;
+}
@@ -0,0 +1,91 @@
+/**
+ * Result re-ranking
+ *
+ * memdata_query and memdata_query_timerange can over-fetch candidates and
+ * narrow them down here: drop weak matches, cap how many chunks come from the
+ * same source, and pick results with Maximal Marginal Relevance (MMR) so the
+ * final list is both relevant and varied.
+ */
+
+export interface RerankOptions {
+  /** Number of results to keep */
+  limit: number;
+  /** Drop results scoring below this (0-1) */
+  minScore?: number;
+  /** Keep at most this many chunks per source */
+  maxPerSource?: number;
+  /** 0 ranks purely by score; towards 1 favours results unlike those already picked */
+  diversity?: number;
+}
+
+/** Candidates fetched per requested result when re-ranking */
+const OVERFETCH_FACTOR = 4;
+
+/** Upper bound on candidates fetched for re-ranking */
+const MAX_CANDIDATES = 50;
+
+/**
+ * True when any option needs more candidates than the final limit
+ */
+function needsRerank(options: RerankOptions): boolean {
+  return options.minScore !== undefined || options.maxPerSource !== undefined || (options.diversity ?? 0) > 0;
+}
+
+/**
+ * How many candidates to fetch for these options
+ */
+export function candidateCount(options: RerankOptions): number {
+  return needsRerank(options) ? Math.max(Math.min(options.limit * OVERFETCH_FACTOR, MAX_CANDIDATES), options.limit) : options.limit;
+}
+
+function terms(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || []);
+}
+
+/**
+ * Jaccard similarity of the word sets of two texts
+ */
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const term of a) {
+    if (b.has(term)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Select up to `limit` results from candidates sorted by score
+ */
+export function rerank<T extends { text: string; source: string; score: number }>(candidates: T[], options: RerankOptions): T[] {
+  const lambda = 1 - Math.min(Math.max(options.diversity ?? 0, 0), 1);
+  const pool = candidates
+    .filter((c) => options.minScore === undefined || c.score >= options.minScore)
+    .map((c) => ({ result: c, terms: lambda < 1 ? terms(c.text) : new Set<string>() }));
+
+  const selected: typeof pool = [];
+  const perSource = new Map<string, number>();
+
+  while (selected.length < options.limit && pool.length > 0) {
+    let best = -1;
+    let bestValue = -Infinity;
+    pool.forEach((candidate, index) => {
+      if (options.maxPerSource !== undefined && (perSource.get(candidate.result.source) || 0) >= options.maxPerSource) return;
+      const redundancy = lambda < 1 && selected.length
+        ? Math.max(...selected.map((s) => similarity(candidate.terms, s.terms)))
+        : 0;
+      const value = lambda * candidate.result.score - (1 - lambda) * redundancy;
+      if (value > bestValue) {
+        best = index;
+        bestValue = value;
+      }
+    });
+    if (best === -1) break;
+
+    const [picked] = pool.splice(best, 1);
+    selected.push(picked);
+    perSource.set(picked.result.source, (perSource.get(picked.result.source) || 0) + 1);
+  }
+
+  return selected.map((s) => s.result);
+}
@@ -0,0 +1,341 @@
+/**
+ * Tool output schemas
+ *
+ * Every tool returns its human-readable text in `content` and the same data
+ * as `structuredContent`, validated against the schema declared here, so
+ * programmatic clients do not have to parse Markdown.
+ */
+
+import { z } from 'zod';
+
+const tags = z.array(z.string());
+
+const redactions = z
+  .array(z.object({ rule: z.string(), action: z.enum(['block', 'mask', 'warn']), count: z.number() }))
+  .describe('Secrets and PII found before the write; masked matches were replaced, warnings were sent unchanged');
+
+export const memoryResultSchema = z.object({
+  text: z.string(),
+  source: z.string(),
+  score: z.number().describe('Similarity score between 0 and 1'),
+  date: z.string().nullable().describe('Creation date of the memory (YYYY-MM-DD)'),
+  chunk_id: z.string().nullable(),
+  tags,
+});
+
+export const narrativeInsightSchema = z.object({
+  type: z.string(),
+  content: z.string(),
+  confidence: z.number(),
+  evidence: z.string(),
+  chunk_id: z.string(),
+});
+
+export const NARRATIVE_TYPES = ['decisions', 'causality', 'patterns', 'implications', 'gaps'] as const;
+
+export const narrativeSchema = z.object({
+  decisions: z.array(narrativeInsightSchema).optional(),
+  causality: z.array(narrativeInsightSchema).optional(),
+  patterns: z.array(narrativeInsightSchema).optional(),
+  implications: z.array(narrativeInsightSchema).optional(),
+  gaps: z.array(narrativeInsightSchema).optional(),
+});
+
+export const artifactSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.string(),
+  chunks: z.number(),
+  date: z.string(),
+  tags,
+});
+
+export const identitySchema = z.object({
+  agent_name: z.string().nullable(),
+  identity_summary: z.string().nullable(),
+  session_count: z.number(),
+});
+
+export const ingestOutput = {
+  status: z.enum(['stored', 'queued']),
+  source: z.string(),
+  artifact_id: z.string().nullable(),
+  chunks: z.number().nullable(),
+  tags,
+  queue_id: z.string().nullable(),
+  replaced_versions: z.array(z.number()).describe('Version numbers the replaced artifacts were saved as (upsert mode)'),
+  not_replaced: z
+    .array(z.object({ artifact_id: z.string(), error: z.string() }))
+    .describe('Previous versions that could not be deleted and are still stored (upsert mode)'),
+  redactions,
+};
+
+export const fileIngestOutput = {
+  files: z.array(
+    z.object({
+      path: z.string(),
+      name: z.string(),
+      status: z.enum(['ingested', 'updated', 'unchanged', 'queued', 'skipped', 'failed']),
+      artifact_id: z.string().nullable(),
+      chunks: z.number().nullable(),
+      detail: z.string().nullable(),
+    })
+  ),
+};
+
+export const historyOutput = {
+  name: z.string(),
+  action: z.enum(['list', 'show', 'diff', 'restore']),
+  current: z.array(z.object({ id: z.string(), date: z.string() })),
+  versions: z.array(
+    z.object({
+      version: z.number(),
+      artifact_id: z.string(),
+      created_at: z.string(),
+      replaced_at: z.string(),
+      chars: z.number(),
+    })
+  ),
+  version: z.object({ version: z.number(), created_at: z.string(), text: z.string() }).optional(),
+  diff: z.string().optional(),
+  restored: z
+    .object({
+      artifact_id: z.string().nullable(),
+      queue_id: z.string().nullable(),
+      replaced_versions: z.array(z.number()),
+      not_replaced: z.array(z.object({ artifact_id: z.string(), error: z.string() })),
+    })
+    .optional(),
+};
+
+export const queryOutput = {
+  query: z.string(),
+  results: z.array(memoryResultSchema),
+  candidates: z.number().describe('Results fetched before min_score, max_per_source and diversity were applied'),
+  narrative: narrativeSchema,
+  narrative_count: z.number(),
+};
+
+export const timerangeQueryOutput = {
+  query: z.string(),
+  since: z.string().nullable().describe('Resolved start of the range (ISO timestamp)'),
+  until: z.string().nullable().describe('Resolved end of the range, inclusive (ISO timestamp)'),
+  range: z.string().describe('The resolved range in local dates, e.g. "2026-10-12 to 2026-10-18 (Europe/Berlin)"'),
+  time_zone: z.string(),
+  results: z.array(memoryResultSchema),
+  candidates: z.number().describe('Results fetched before min_score, max_per_source and diversity were applied'),
+};
+
+export const chunkSchema = z.object({
+  id: z.string(),
+  artifact_id: z.string().nullable(),
+  source: z.string().nullable(),
+  date: z.string().nullable(),
+  chunk_index: z.number().nullable(),
+  text: z.string(),
+});
+
+export const insightsOutput = {
+  topic: z.string().nullable(),
+  insights: z.array(
+    narrativeInsightSchema.extend({
+      category: z.enum(NARRATIVE_TYPES),
+      source: z.string().nullable().describe('Source name of the chunk the insight was extracted from, when it was among the search results'),
+      date: z.string().nullable(),
+    })
+  ),
+  chunk: chunkSchema.optional().describe('The expanded chunk, when chunk_id was given'),
+};
+
+export const listOutput = {
+  artifacts: z.array(artifactSchema),
+  next_cursor: z.string().nullable(),
+};
+
+export const deleteOutput = {
+  artifact_id: z.string(),
+  deleted_chunks: z.number().nullable(),
+};
+
+export const deleteManyOutput = {
+  dry_run: z.boolean(),
+  artifacts: z.array(artifactSchema).describe('Matching artifacts (dry run only)'),
+  total_chunks: z.number(),
+  confirm_token: z.string().nullable(),
+  deleted: z.number(),
+  deleted_chunks: z.number(),
+  deleted_ids: z.array(z.string()).describe('Ids of the artifacts deleted (confirmed run only)'),
+  failed: z.array(z.object({ id: z.string(), error: z.string() })),
+};
+
+export const statusOutput = {
+  healthy: z.boolean(),
+  storage: z.object({ used_mb: z.number(), limit_mb: z.number(), percent: z.number() }),
+  namespace: z.string().nullable(),
+  namespace_source: z.string(),
+  cache: z.object({
+    enabled: z.boolean(),
+    entries: z.number(),
+    max_entries: z.number(),
+    ttl_ms: z.number(),
+    hits: z.number(),
+    misses: z.number(),
+    operations: z.record(z.object({ hits: z.number(), misses: z.number() })).describe('Hits and misses per cached operation'),
+  }),
+};
+
+export const sessionStartOutput = {
+  identity: identitySchema,
+  namespace: z.string().nullable(),
+  working_on: z.string().nullable(),
+  last_session: z.record(z.unknown()).nullable(),
+  memory_stats: z.object({
+    total_memories: z.number(),
+    oldest_memory: z.string().nullable(),
+    newest_memory: z.string().nullable(),
+  }),
+  recent_activity: z.array(z.object({ source: z.string(), date: z.string() })),
+};
+
+export const sessionEndOutput = {
+  status: z.enum(['saved', 'queued']),
+  working_on: z.string().nullable(),
+  summary: z.string(),
+  queue_id: z.string().nullable(),
+  history_id: z.string().nullable().describe('Artifact id of this session in memdata_session_history (null if queued or not saved)'),
+  redactions,
+};
+
+export const sessionRecordSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  started_at: z.string().nullable(),
+  ended_at: z.string(),
+  working_on: z.string().nullable(),
+  summary: z.string(),
+  context: z.record(z.unknown()),
+  namespace: z.string().nullable(),
+});
+
+export const sessionHistoryOutput = {
+  action: z.enum(['list', 'search', 'show']),
+  sessions: z.array(sessionRecordSchema.extend({ score: z.number().nullable().describe('Search similarity (search only)') })),
+  range: z.string().nullable().describe('The resolved date range, if one was given'),
+  next_cursor: z.string().nullable(),
+};
+
+export const setIdentityOutput = {
+  agent_name: z.string().nullable().describe('New name, or null if unchanged'),
+  identity_summary: z.string().nullable().describe('New summary, or null if unchanged'),
+  redactions,
+};
+
+export const relationshipsOutput = {
+  entity: z.string(),
+  entity_type: z.string().nullable(),
+  relationships: z.array(z.object({ name: z.string(), type: z.string(), strength: z.number() })),
+};
+
+export const graphOutput = {
+  entity: z.string(),
+  target: z.string().nullable().describe('The entity a path was searched for, if any'),
+  nodes: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      type: z.string().nullable(),
+      depth: z.number().describe('Hops from the starting entity'),
+    })
+  ),
+  edges: z.array(z.object({ from: z.string(), to: z.string(), strength: z.number().describe('Co-occurrence count') })),
+  path: z.array(z.string()).nullable().describe('Entity names from the start to the target, or null if not connected'),
+  explored: z.number().describe('Entities whose relationships were looked up'),
+  truncated: z.boolean().describe('True when max_nodes stopped the walk early'),
+  diagram: z.string().nullable(),
+};
+
+export const queueOutput = {
+  action: z.enum(['list', 'flush', 'drop']),
+  items: z
+    .array(
+      z.object({
+        id: z.string(),
+        kind: z.string(),
+        label: z.string(),
+        queued_at: z.string(),
+        attempts: z.number(),
+        last_error: z.string().nullable(),
+        failed: z.boolean(),
+      })
+    )
+    .optional(),
+  sent: z.number().optional(),
+  remaining: z.number().optional(),
+  dropped: z.number().optional(),
+};
+
+export const profileOutput = {
+  action: z.enum(['show', 'list', 'switch']),
+  active: z.object({
+    name: z.string().nullable().describe('Active profile; null when configured by environment variables alone'),
+    source: z.string().nullable().describe('How the profile was selected: --profile, MEMDATA_PROFILE, config file or memdata_profile'),
+    api_url: z.string(),
+    api_key: z.string().nullable().describe('Masked API key'),
+    local: z.boolean(),
+    namespace: z.string().nullable(),
+    namespace_source: z.string(),
+    format: z.string(),
+    time_zone: z.string(),
+  }),
+  profiles: z.array(
+    z.object({
+      name: z.string(),
+      file: z.string(),
+      api_url: z.string().nullable(),
+      namespace: z.string().nullable(),
+      active: z.boolean(),
+    })
+  ),
+  files: z.array(z.string()).describe('Config files that were read'),
+};
+
+export const auditOutput = {
+  path: z.string(),
+  range: z.string(),
+  entries: z.array(
+    z.object({
+      ts: z.string(),
+      tool: z.string(),
+      client: z.string().nullable(),
+      session: z.string().nullable(),
+      namespace: z.string().nullable(),
+      args: z.record(z.unknown()).describe('Arguments as logged: memory content replaced by its length, secrets masked'),
+      artifact_ids: z.array(z.string()).describe('Artifacts the call created, replaced or deleted'),
+      outcome: z.enum(['ok', 'error']),
+      error: z.string().nullable(),
+      latency_ms: z.number(),
+    })
+  ),
+  more: z.boolean().describe('True when older matching entries were left out (raise limit or narrow the range)'),
+};
+
+export const exportOutput = {
+  path: z.string(),
+  artifacts: z.number(),
+  sessions: z.number(),
+};
+
+export const importOutput = {
+  imported: z.number(),
+  skipped: z.number(),
+  queued: z.number(),
+  failed: z.array(z.object({ name: z.string(), message: z.string() })),
+  identity_restored: z.boolean(),
+  session_restored: z.boolean(),
+};
+
+export type MemoryResultOutput = z.infer<typeof memoryResultSchema>;
+export type QueryOutput = z.infer<z.ZodObject<typeof queryOutput>>;
+export type TimerangeQueryOutput = z.infer<z.ZodObject<typeof timerangeQueryOutput>>;
+export type StatusOutput = z.infer<z.ZodObject<typeof statusOutput>>;
+export type SessionStartOutput = z.infer<z.ZodObject<typeof sessionStartOutput>>;
@@ -0,0 +1,154 @@
+/**
+ * Artifact version history
+ *
+ * When memdata_ingest runs in upsert mode, the artifact it replaces is saved
+ * here (full text, tags, metadata and dates) before being deleted, so older
+ * versions can be listed, compared and restored with memdata_history.
+ * History is kept per API URL and namespace, and only on this machine.
+ */
+
+import { mkdir, readFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { acquireLock, writeFileAtomic } from './file-lock.js';
+
+export interface ArtifactVersion {
+  version: number;
+  artifact_id: string;
+  text: string;
+  tags: string[];
+  metadata: Record<string, unknown>;
+  created_at: string;
+  replaced_at: string;
+}
+
+/** Diffs above this many lines per side are summarised instead of computed */
+const MAX_DIFF_LINES = 2000;
+
+export class VersionHistory {
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly path: string) {}
+
+  /**
+   * Superseded versions of a source name, oldest first
+   */
+  async list(apiUrl: string, namespace: string | null, name: string): Promise<ArtifactVersion[]> {
+    return (await this.load())[this.key(apiUrl, namespace, name)] || [];
+  }
+
+  /**
+   * Record a superseded version and return its version number
+   */
+  async add(apiUrl: string, namespace: string | null, name: string, version: Omit<ArtifactVersion, 'version'>): Promise<number> {
+    let number = 0;
+    await this.update((all) => {
+      const key = this.key(apiUrl, namespace, name);
+      const versions = all[key] || [];
+      number = versions.length ? versions[versions.length - 1].version + 1 : 1;
+      all[key] = [...versions, { version: number, ...version }];
+    });
+    return number;
+  }
+
+  /**
+   * Take back a version recorded by add, when the artifact it saved could not be deleted after all
+   */
+  async remove(apiUrl: string, namespace: string | null, name: string, number: number): Promise<void> {
+    await this.update((all) => {
+      const key = this.key(apiUrl, namespace, name);
+      const versions = (all[key] || []).filter((v) => v.version !== number);
+      if (versions.length) all[key] = versions;
+      else delete all[key];
+    });
+  }
+
+  /**
+   * Read-modify-write the history file, serialised within this process and
+   * across processes sharing the file
+   */
+  private async update(change: (all: Record<string, ArtifactVersion[]>) => void): Promise<void> {
+    this.writing = this.writing.catch(() => undefined).then(async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      const release = await acquireLock(`${this.path}.lock`, true);
+      if (!release) throw new Error(`Version history ${this.path} is locked by another process`);
+      try {
+        const all = await this.load();
+        change(all);
+        await writeFileAtomic(this.path, JSON.stringify(all, null, 2));
+      } finally {
+        await release();
+      }
+    });
+    return this.writing;
+  }
+
+  private key(apiUrl: string, namespace: string | null, name: string): string {
+    return `${apiUrl} ${namespace || ''}::${name}`;
+  }
+
+  private async load(): Promise<Record<string, ArtifactVersion[]>> {
+    try {
+      return JSON.parse(await readFile(this.path, 'utf8')) as Record<string, ArtifactVersion[]>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw error;
+    }
+  }
+}
+
+/**
+ * Line diff (longest common subsequence) in unified style: "-" removed, "+" added.
+ * Unchanged runs longer than `context` lines around changes are collapsed.
+ */
+export function lineDiff(before: string, after: string, context: number = 2): string {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+    return `(too large to diff: ${a.length} vs ${b.length} lines)`;
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: Uint16Array[] = Array.from({ length: a.length + 1 }, () => new Uint16Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: Array<{ op: ' ' | '-' | '+'; line: string }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ op: ' ', line: a[i] });
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      ops.push({ op: '-', line: a[i++] });
+    } else {
+      ops.push({ op: '+', line: b[j++] });
+    }
+  }
+
+  if (ops.every((o) => o.op === ' ')) return '(no changes)';
+
+  const near = (index: number) =>
+    ops.slice(Math.max(0, index - context), index + context + 1).some((o) => o.op !== ' ');
+  const lines: string[] = [];
+  let skipped = 0;
+  ops.forEach((o, index) => {
+    if (o.op === ' ' && !near(index)) {
+      skipped++;
+      return;
+    }
+    if (skipped) {
+      lines.push(`  ... ${skipped} unchanged line${skipped === 1 ? '' : 's'}`);
+      skipped = 0;
+    }
+    lines.push(`${o.op} ${o.line}`);
+  });
+  if (skipped) lines.push(`  ... ${skipped} unchanged line${skipped === 1 ? '' : 's'}`);
+
+  return lines.join('\n');
+}
@@ -0,0 +1,184 @@
+/**
+ * Offline write queue
+ *
+ * Writes that fail because the API is unreachable (ingest, session handoffs)
+ * are saved to a JSON file on disk and replayed in the background once the
+ * API is back, so content is not lost when memdata.ai is down.
+ *
+ * Several server processes (one per stdio client) share the queue file, so
+ * changes to it and replays are guarded by lock files next to it.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { acquireLock, writeFileAtomic } from './file-lock.js';
+
+export interface QueuedWrite {
+  id: string;
+  kind: 'ingest' | 'upsert' | 'session_end';
+  /** Short human-readable label (source name or handoff summary) */
+  label: string;
+  endpoint: string;
+  body: Record<string, unknown>;
+  queued_at: string;
+  attempts: number;
+  last_error?: string;
+  /** Set when the API rejected the write; it is then only retried on manual flush */
+  failed?: boolean;
+  /** Upserts only: artifacts the write replaces once delivered (null: look them up by name then) */
+  replaces?: string[] | null;
+}
+
+export type WriteSender = (endpoint: string, body: Record<string, unknown>, item: QueuedWrite) => Promise<unknown>;
+
+/**
+ * Decides whether a send error means "try again later" (true) or a permanent rejection (false)
+ */
+export type UnavailableCheck = (error: unknown) => boolean;
+
+export class WriteQueue {
+  private timer: NodeJS.Timeout | null = null;
+  private flushing: Promise<{ sent: number; remaining: number }> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly path: string,
+    private readonly send: WriteSender,
+    private readonly isUnavailable: UnavailableCheck
+  ) {}
+
+  async list(): Promise<QueuedWrite[]> {
+    try {
+      return JSON.parse(await readFile(this.path, 'utf8')) as QueuedWrite[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  async enqueue(
+    kind: QueuedWrite['kind'],
+    label: string,
+    endpoint: string,
+    body: Record<string, unknown>,
+    replaces?: string[] | null
+  ): Promise<QueuedWrite> {
+    const item: QueuedWrite = {
+      id: randomUUID(),
+      kind,
+      label,
+      endpoint,
+      body,
+      queued_at: new Date().toISOString(),
+      attempts: 0,
+      ...(kind === 'upsert' ? { replaces: replaces ?? null } : {}),
+    };
+    await this.update((items) => [...items, item]);
+    return item;
+  }
+
+  /**
+   * Remove one queued write, or all of them when no id is given. Returns how many were dropped.
+   */
+  async drop(id?: string): Promise<number> {
+    let dropped = 0;
+    await this.update((items) => {
+      const kept = id ? items.filter((i) => i.id !== id) : [];
+      dropped = items.length - kept.length;
+      return kept;
+    });
+    return dropped;
+  }
+
+  /**
+   * Replay queued writes in order. Stops at the first one that fails because the
+   * API is still unavailable. With `includeFailed`, rejected writes are retried too.
+   * Does nothing while another process is replaying the same queue.
+   */
+  async flush(includeFailed: boolean = false): Promise<{ sent: number; remaining: number }> {
+    if (!this.flushing) {
+      this.flushing = this.replayExclusively(includeFailed).finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  /**
+   * Retry pending writes periodically in the background
+   */
+  start(intervalMs: number): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.flush().catch((error) => console.error('Write queue flush failed:', error));
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async replayExclusively(includeFailed: boolean): Promise<{ sent: number; remaining: number }> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const release = await acquireLock(`${this.path}.flush.lock`, false);
+    if (!release) return { sent: 0, remaining: (await this.list()).length };
+    try {
+      return await this.replay(includeFailed);
+    } finally {
+      await release();
+    }
+  }
+
+  private async replay(includeFailed: boolean): Promise<{ sent: number; remaining: number }> {
+    let sent = 0;
+
+    for (const item of await this.list()) {
+      if (item.failed && !includeFailed) continue;
+
+      let error: string | undefined;
+      let unavailable = false;
+      try {
+        const result = (await this.send(item.endpoint, item.body, item)) as { success?: boolean; error?: string };
+        if (result && result.success === false) error = result.error || 'Unknown error';
+      } catch (e) {
+        error = e instanceof Error ? e.message : 'Unknown error';
+        unavailable = this.isUnavailable(e);
+      }
+
+      await this.update((items) => {
+        if (!error) return items.filter((i) => i.id !== item.id);
+        return items.map((i) =>
+          i.id === item.id ? { ...i, attempts: i.attempts + 1, last_error: error, failed: !unavailable } : i
+        );
+      });
+
+      if (!error) sent++;
+      // Keep order: no point trying later writes while the API is down
+      if (unavailable) break;
+    }
+
+    return { sent, remaining: (await this.list()).length };
+  }
+
+  /**
+   * Read-modify-write the queue file, serialised within this process and
+   * across processes sharing the file
+   */
+  private async update(change: (items: QueuedWrite[]) => QueuedWrite[]): Promise<void> {
+    this.writing = this.writing.catch(() => undefined).then(async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      const release = await acquireLock(`${this.path}.lock`, true);
+      if (!release) throw new Error(`Offline queue ${this.path} is locked by another process`);
+      try {
+        const items = change(await this.list());
+        await writeFileAtomic(this.path, JSON.stringify(items, null, 2));
+      } finally {
+        await release();
+      }
+    });
+    return this.writing;
+  }
+}
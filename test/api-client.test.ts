@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { ApiClient, ApiError } from '../src/api-client.js';
+
+describe('ApiClient', () => {
+  let server: Server;
+  let baseUrl: string;
+  // Statuses to answer with, in order; 200 once they run out
+  let statuses: number[];
+  let requests: number;
+
+  before(async () => {
+    server = createServer((req, res) => {
+      requests++;
+      req.resume();
+      const status = statuses.shift() ?? 200;
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(status === 200 ? JSON.stringify({ success: true }) : 'upstream trouble');
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    statuses = [];
+    requests = 0;
+  });
+
+  const client = () => new ApiClient({ baseUrl, apiKey: 'md_test', maxRetries: 2, baseDelayMs: 0 });
+  const ingest = (api: ApiClient) => api.request('POST', '/api/memdata/ingest', { body: { content: 'x', sourceName: 'x' } });
+
+  it('neither retries nor reports as unavailable an ingest answered with 502', async () => {
+    statuses = [502];
+    await assert.rejects(ingest(client()), (error: unknown) => {
+      assert.ok(error instanceof ApiError);
+      assert.equal(error.status, 502);
+      assert.equal(error.unavailable, false);
+      assert.match(error.message, /may have been applied/);
+      return true;
+    });
+    assert.equal(requests, 1);
+  });
+
+  it('retries writes turned away with 503, then reports the API unavailable', async () => {
+    statuses = [503, 503, 503];
+    await assert.rejects(ingest(client()), (error: unknown) => error instanceof ApiError && error.unavailable);
+    assert.equal(requests, 3);
+
+    statuses = [429];
+    assert.deepEqual(await ingest(client()), { success: true });
+  });
+
+  it('retries reads and idempotent writes on 502', async () => {
+    statuses = [502];
+    assert.deepEqual(await client().request('GET', '/api/memdata/artifacts'), { success: true });
+    statuses = [502];
+    assert.deepEqual(await client().request('POST', '/api/memdata/query', { body: { query: 'x' }, idempotent: true }), { success: true });
+    assert.equal(requests, 4);
+  });
+});
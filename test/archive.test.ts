@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ArchiveRecord, checkArtifact, formatForPath, parseArchive, serializeArchive } from '../src/archive.js';
+
+const records: ArchiveRecord[] = [
+  { type: 'header', version: 1, exported_at: '2026-10-01T10:00:00.000Z', source: 'https://memdata.ai' },
+  { type: 'identity', agent_name: 'Ada', identity_summary: null, working_on: 'archives' },
+  { type: 'session', handoff: { summary: 'Wrapped up', context: { files: 2 } } },
+  {
+    type: 'artifact',
+    id: 'a1',
+    name: 'notes.md',
+    artifact_type: 'text',
+    created_at: '2026-09-30T08:00:00.000Z',
+    tags: ['project'],
+    metadata: { source: 'test' },
+    namespace: 'github.com/acme/api',
+    text: '# Notes\n\nFirst line\n\n\nAfter blank lines',
+  },
+  {
+    type: 'artifact',
+    id: 'a2',
+    name: 'no-namespace.txt',
+    artifact_type: 'text',
+    created_at: '2026-09-29T08:00:00.000Z',
+    text: 'Quoting the end marker:\n<!-- /memdata:artifact -->\nand carrying on',
+  },
+];
+
+describe('archive', () => {
+  for (const format of ['jsonl', 'markdown'] as const) {
+    it(`round-trips every record through ${format}`, () => {
+      assert.deepEqual(parseArchive(serializeArchive(records, format)), records);
+    });
+
+    it(`parses ${format} with CRLF line endings`, () => {
+      const crlf = serializeArchive(records, format).replace(/\n/g, '\r\n');
+      assert.deepEqual(parseArchive(crlf), records);
+    });
+  }
+
+  it('keeps a missing namespace missing', () => {
+    const parsed = parseArchive(serializeArchive(records, 'markdown'));
+    const artifact = parsed.find((r) => r.type === 'artifact' && r.id === 'a2');
+    assert.ok(artifact && artifact.type === 'artifact');
+    assert.equal(artifact.namespace, undefined);
+  });
+
+  it('reads Markdown bundles written without line counts', () => {
+    const bundle = [
+      '<!-- memdata:header {"version":1,"exported_at":"2026-10-01T10:00:00.000Z","source":"x"} -->',
+      '',
+      '<!-- memdata:artifact {"id":"a1","name":"old.md","artifact_type":"text","created_at":"2026-09-30T08:00:00.000Z"} -->',
+      '## old.md',
+      '',
+      'line one',
+      'line two',
+      '<!-- /memdata:artifact -->',
+    ].join('\n');
+    const artifact = parseArchive(bundle)[1];
+    assert.ok(artifact.type === 'artifact');
+    assert.equal(artifact.text, 'line one\nline two');
+  });
+
+  it('rejects an artifact that does not end where its line count says', () => {
+    const bundle = serializeArchive(records, 'markdown').replace('First line\n', '');
+    assert.throws(() => parseArchive(bundle), /is not closed after its \d+ lines/);
+  });
+
+  it('reports malformed artifact lines without rejecting the rest', () => {
+    const lines = serializeArchive(records, 'jsonl').trimEnd().split('\n');
+    lines.push(JSON.stringify({ type: 'artifact', id: 'a3', name: 'broken.md', artifact_type: 'text', created_at: '2026-09-28T08:00:00.000Z' }));
+    lines.push(JSON.stringify({ type: 'artifact', id: 'a4', name: 'numeric.md', artifact_type: 'text', created_at: '2026-09-28T08:00:00.000Z', text: 42 }));
+    const checked = parseArchive(lines.join('\n'))
+      .filter((r) => r.type === 'artifact')
+      .map((r) => checkArtifact(r));
+
+    assert.deepEqual(
+      checked.map((c) => (c.success ? c.artifact.id : c.message)),
+      ['a1', 'a2', 'Invalid artifact record: text: Required', 'Invalid artifact record: text: Expected string, received number']
+    );
+  });
+
+  it('picks the format from the extension', () => {
+    assert.equal(formatForPath('backup.md'), 'markdown');
+    assert.equal(formatForPath('backup.MARKDOWN'), 'markdown');
+    assert.equal(formatForPath('backup.jsonl'), 'jsonl');
+  });
+});
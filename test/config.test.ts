@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { loadProfileConfig, selectProfile } from '../src/config.js';
+
+describe('loadProfileConfig', () => {
+  let dir: string;
+  let userPath: string;
+  let project: string;
+
+  const writeProject = (config: unknown) => writeFile(join(project, '.memdata.json'), JSON.stringify(config));
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'memdata-config-'));
+    userPath = join(dir, 'config.json');
+    project = join(dir, 'project');
+    await mkdir(join(project, 'src'), { recursive: true });
+    await writeFile(
+      userPath,
+      JSON.stringify({
+        default_profile: 'work',
+        profiles: {
+          work: { api_key: 'md_work', namespace: 'acme', defaults: { format: 'compact', emoji: false } },
+          personal: { api_key: 'md_personal' },
+        },
+      })
+    );
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('lets the project pick a profile and add to it, keeping the user key', async () => {
+    await writeProject({ profile: 'work', profiles: { work: { namespace: 'acme/api', defaults: { format: 'json' } } } });
+    const config = loadProfileConfig(userPath, join(project, 'src'));
+    assert.deepEqual(selectProfile(config, undefined, undefined), { name: 'work', source: 'config file' });
+    const { file, ...work } = config.profiles.work;
+    assert.equal(file, join(project, '.memdata.json'));
+    assert.deepEqual(work, { api_key: 'md_work', namespace: 'acme/api', defaults: { format: 'json', emoji: false } });
+  });
+
+  it('refuses a project file that sets an API key or URL', async () => {
+    await writeProject({ profiles: { work: { api_key: 'md_theirs' } } });
+    assert.throws(() => loadProfileConfig(userPath, project), /work sets api_key; a project file can only set namespace and defaults/);
+    await writeProject({ profile: 'evil', profiles: { evil: { api_url: 'https://example.com' } } });
+    assert.throws(() => loadProfileConfig(userPath, project), /evil sets api_url/);
+  });
+
+  it('rejects unknown profiles', async () => {
+    await writeProject({ profile: 'missing' });
+    const config = loadProfileConfig(userPath, project);
+    assert.throws(() => selectProfile(config, undefined, undefined), /Unknown profile "missing" \(from config file\)/);
+    assert.deepEqual(selectProfile(config, 'personal', 'missing'), { name: 'personal', source: '--profile' });
+  });
+});
@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { resolveDateRange, resolveTimeZone } from '../src/dates.js';
+
+// Monday 2026-10-19, midday UTC
+const now = new Date('2026-10-19T12:00:00Z');
+const resolve = (input: { since?: string; until?: string; range?: string }, timeZone = 'UTC') =>
+  resolveDateRange(input, { timeZone, now });
+
+describe('resolveDateRange', () => {
+  it('resolves single days', () => {
+    assert.deepEqual(resolve({ range: 'yesterday' }), {
+      since: '2026-10-18T00:00:00.000Z',
+      until: '2026-10-18T23:59:59.999Z',
+      label: '2026-10-18 (UTC)',
+    });
+  });
+
+  it('resolves weeks, months and quarters', () => {
+    assert.equal(resolve({ range: 'last week' }).label, '2026-10-12 to 2026-10-18 (UTC)');
+    assert.equal(resolve({ range: 'March' }).label, '2026-03-01 to 2026-03-31 (UTC)');
+    assert.equal(resolve({ range: 'Q3 2026' }).label, '2026-07-01 to 2026-09-30 (UTC)');
+  });
+
+  it('resolves open-ended ranges', () => {
+    const since = resolve({ range: 'since March' });
+    assert.equal(since.since, '2026-03-01T00:00:00.000Z');
+    assert.equal(since.until, undefined);
+
+    const before = resolve({ range: 'before 2026-10-01' });
+    assert.equal(before.until, '2026-09-30T23:59:59.999Z');
+
+    const after = resolve({ range: 'after 2026-10-01' });
+    assert.equal(after.since, '2026-10-02T00:00:00.000Z');
+
+    const upTo = resolve({ range: 'up to yesterday' });
+    assert.equal(upTo.since, undefined);
+    assert.equal(upTo.until, '2026-10-18T23:59:59.999Z');
+  });
+
+  it('handles exact timestamps after "before" and "after"', () => {
+    assert.equal(resolve({ range: 'after 2026-10-01T10:00:00Z' }).since, '2026-10-01T10:00:00.001Z');
+    assert.equal(resolve({ range: 'before 2026-10-01T10:00:00Z' }).until, '2026-10-01T09:59:59.999Z');
+  });
+
+  it('resolves in the given time zone', () => {
+    assert.deepEqual(resolve({ range: '2026-10-18' }, 'Europe/Berlin'), {
+      since: '2026-10-17T22:00:00.000Z',
+      until: '2026-10-18T21:59:59.999Z',
+      label: '2026-10-18 (Europe/Berlin)',
+    });
+  });
+
+  it('lets since and until override the ends of range', () => {
+    const range = resolve({ range: 'March', until: '2026-03-15' });
+    assert.equal(range.since, '2026-03-01T00:00:00.000Z');
+    assert.equal(range.until, '2026-03-15T23:59:59.999Z');
+  });
+
+  it('rejects range words in since and until, pointing at range', () => {
+    assert.throws(() => resolve({ since: 'since March' }), /put "since March" in range/);
+    assert.throws(() => resolve({ until: 'before May' }), /put "before May" in range/);
+  });
+
+  it('rejects what it cannot parse', () => {
+    assert.throws(() => resolve({ range: 'whenever' }), /Could not understand the date "whenever"/);
+    assert.throws(() => resolve({ range: '2026-02-30' }), /Could not understand/);
+    assert.throws(() => resolve({ since: '2026-10-10', until: '2026-10-01' }), /starts \(2026-10-10\) after it ends/);
+  });
+});
+
+describe('resolveTimeZone', () => {
+  it('keeps a valid zone and falls back otherwise', () => {
+    assert.equal(resolveTimeZone('Europe/Berlin'), 'Europe/Berlin');
+    assert.equal(resolveTimeZone('Not/AZone'), resolveTimeZone());
+  });
+});
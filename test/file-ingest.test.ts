@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, rm, symlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, relative } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { collectFiles, resolveInside } from '../src/file-ingest.js';
+
+describe('collectFiles', () => {
+  let dir: string;
+  let root: string;
+
+  const names = (files: string[]) => files.map((file) => relative(root, file).split('\\').join('/'));
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'memdata-ingest-'));
+    root = join(dir, 'project');
+    await mkdir(join(root, 'docs'), { recursive: true });
+    await mkdir(join(root, '.git'));
+    await writeFile(join(root, 'docs', 'a.md'), 'a');
+    await writeFile(join(root, 'docs', 'b.md'), 'b');
+    await writeFile(join(root, 'docs', 'c.txt'), 'c');
+    await writeFile(join(root, 'docs', 'image.png'), 'png');
+    await writeFile(join(root, '.env'), 'SECRET=1');
+    await writeFile(join(root, '.git', 'config.json'), '{}');
+    await writeFile(join(dir, 'outside.md'), 'outside');
+    await symlink(dir, join(root, 'docs', 'escape'));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('walks a directory, skipping dotfiles, dot-directories and non-text files', async () => {
+    assert.deepEqual(names(await collectFiles('.', root, 100)), ['docs/a.md', 'docs/b.md', 'docs/c.txt']);
+  });
+
+  it('applies the same filter to globs', async () => {
+    assert.deepEqual(names(await collectFiles('**/*', root, 100)), ['docs/a.md', 'docs/b.md', 'docs/c.txt']);
+    assert.deepEqual(names(await collectFiles('docs/*.md', root, 100)), ['docs/a.md', 'docs/b.md']);
+  });
+
+  it('stops at the limit', async () => {
+    assert.deepEqual(names(await collectFiles('docs', root, 2)), ['docs/a.md', 'docs/b.md']);
+  });
+
+  it('returns a single text file', async () => {
+    assert.deepEqual(names(await collectFiles('docs/a.md', root, 100)), ['docs/a.md']);
+  });
+
+  it('refuses dotfiles and non-text files named directly', async () => {
+    await assert.rejects(collectFiles('.env', root, 100), /cannot be ingested/);
+    await assert.rejects(collectFiles('.git/config.json', root, 100), /cannot be ingested/);
+    await assert.rejects(collectFiles('docs/image.png', root, 100), /cannot be ingested/);
+  });
+
+  it('refuses paths outside the root', async () => {
+    await assert.rejects(collectFiles('../outside.md', root, 100), /is outside/);
+    await assert.rejects(collectFiles(join(dir, 'outside.md'), root, 100), /is outside/);
+    await assert.rejects(collectFiles('../*.md', root, 100), /is outside/);
+  });
+
+  it('refuses symlinks that lead outside the root', async () => {
+    await assert.rejects(collectFiles('docs/escape/outside.md', root, 100), /is outside/);
+    await assert.rejects(collectFiles('docs/escape', root, 100), /is outside/);
+  });
+
+  it('resolves paths that do not exist yet, refusing those under a symlink out of the root', async () => {
+    assert.equal(await resolveInside(root, 'exports/new.jsonl'), join(root, 'exports', 'new.jsonl'));
+    await assert.rejects(resolveInside(root, 'docs/escape/new.jsonl'), /is outside/);
+  });
+});
@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { SessionJournal, ToolCall } from '../src/journal.js';
+
+const call = (tool: string, args: Record<string, unknown> = {}, result?: Record<string, unknown>): ToolCall => ({
+  tool,
+  args,
+  result,
+  isError: false,
+  startedAt: new Date().toISOString(),
+  durationMs: 1,
+});
+
+describe('SessionJournal', () => {
+  it('skips sessions that wrote nothing', () => {
+    const journal = new SessionJournal();
+    journal.record(call('memdata_query', { query: 'salaries' }));
+    journal.record(call('memdata_list'));
+    assert.equal(journal.automaticHandoff('stdin closed'), null);
+  });
+
+  it('counts searches without repeating what was searched for', () => {
+    const journal = new SessionJournal();
+    journal.record(call('memdata_query', { query: 'salaries' }));
+    journal.record(call('memdata_ingest', { name: 'notes.md' }, { artifact_id: 'a1' }));
+    const handoff = journal.automaticHandoff('stdin closed');
+    assert.ok(handoff);
+    assert.equal(handoff.summary, '[automatic] Session ended (stdin closed) without memdata_session_end. This session stored "notes.md"; ran 1 search.');
+    assert.equal(handoff.context.searches, 1);
+    assert.doesNotMatch(JSON.stringify(handoff), /salaries/);
+  });
+
+  it('only covers what was written after a handoff the client wrote itself', () => {
+    const journal = new SessionJournal();
+    journal.record(call('memdata_ingest', { name: 'notes.md' }, { artifact_id: 'a1' }));
+    journal.record(call('memdata_session_end', { summary: 'done' }, { history_id: 'h1' }));
+    assert.equal(journal.automaticHandoff('SIGTERM'), null);
+
+    journal.record(call('memdata_ingest', { name: 'later.md' }, { artifact_id: 'a2' }));
+    const handoff = journal.automaticHandoff('SIGTERM');
+    assert.ok(handoff);
+    assert.deepEqual(handoff.context.stored, ['later.md']);
+  });
+});
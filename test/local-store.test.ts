@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { LocalStore } from '../src/local-store.js';
+
+describe('LocalStore', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'memdata-store-'));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const names = async (store: LocalStore) => {
+    const result = (await store.request('GET', '/api/memdata/artifacts?limit=50')) as { artifacts: Array<{ source_name: string }> };
+    return result.artifacts.map((a) => a.source_name).sort();
+  };
+
+  it('keeps the writes of every store sharing a file', async () => {
+    const path = join(dir, 'shared.json');
+    const first = new LocalStore(path);
+    const second = new LocalStore(path);
+    await first.request('GET', '/api/memdata/artifacts');
+    await second.request('GET', '/api/memdata/artifacts');
+
+    await Promise.all([
+      first.request('POST', '/api/memdata/ingest', { content: 'alpha', sourceName: 'a' }),
+      second.request('POST', '/api/memdata/ingest', { content: 'beta', sourceName: 'b' }),
+    ]);
+    await first.request('POST', '/api/memdata/ingest', { content: 'gamma', sourceName: 'c' });
+
+    assert.deepEqual(await names(first), ['a', 'b', 'c']);
+    assert.deepEqual(await names(second), ['a', 'b', 'c']);
+  });
+
+  it('sees deletes made through another store', async () => {
+    const path = join(dir, 'deletes.json');
+    const first = new LocalStore(path);
+    const second = new LocalStore(path);
+    const { artifact_id } = (await first.request('POST', '/api/memdata/ingest', { content: 'alpha', sourceName: 'a' })) as { artifact_id: string };
+    assert.deepEqual(await names(second), ['a']);
+
+    assert.deepEqual(await second.request('DELETE', `/api/memdata/artifacts/${artifact_id}`), { success: true, deleted_chunks: 1, message: 'Deleted a' });
+    assert.deepEqual(await names(first), []);
+    assert.deepEqual(await first.request('DELETE', `/api/memdata/artifacts/${artifact_id}`), { success: false, error: 'Artifact not found' });
+  });
+});
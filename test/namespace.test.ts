@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { normalizeRemote, resolveNamespace } from '../src/namespace.js';
+
+describe('resolveNamespace', () => {
+  let dir: string;
+  let repo: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'memdata-namespace-'));
+    repo = join(dir, 'api');
+    await mkdir(join(repo, '.git'), { recursive: true });
+    await mkdir(join(repo, 'src'));
+    await writeFile(join(repo, '.git', 'config'), '[remote "origin"]\n\turl = git@github.com:acme/api.git\n');
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('derives the namespace from the git remote by default', () => {
+    assert.deepEqual(resolveNamespace(undefined, join(repo, 'src')), { namespace: 'github.com/acme/api', source: 'git remote' });
+    assert.deepEqual(resolveNamespace('auto', repo), { namespace: 'github.com/acme/api', source: 'git remote' });
+  });
+
+  it('falls back to the working directory name outside git', () => {
+    assert.deepEqual(resolveNamespace('', dir), { namespace: dir.split(/[\\/]/).pop(), source: 'working directory' });
+  });
+
+  it('uses an explicit namespace, or none when opted out', () => {
+    assert.deepEqual(resolveNamespace('acme', repo), { namespace: 'acme', source: 'MEMDATA_NAMESPACE' });
+    assert.deepEqual(resolveNamespace('none', repo), { namespace: null, source: 'MEMDATA_NAMESPACE' });
+  });
+});
+
+describe('normalizeRemote', () => {
+  it('reduces remote URLs to host/owner/repo', () => {
+    assert.equal(normalizeRemote('https://github.com/Acme/API.git'), 'github.com/acme/api');
+    assert.equal(normalizeRemote('ssh://git@gitlab.example.com:2222/acme/api.git'), 'gitlab.example.com/acme/api');
+  });
+});
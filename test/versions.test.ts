@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { VersionHistory } from '../src/versions.js';
+
+describe('VersionHistory', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'memdata-versions-'));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const version = (artifact_id: string) => ({
+    artifact_id,
+    text: artifact_id,
+    tags: [],
+    metadata: {},
+    created_at: '2026-10-01T00:00:00.000Z',
+    replaced_at: '2026-10-02T00:00:00.000Z',
+  });
+
+  it('keeps the versions added through every history sharing a file', async () => {
+    const path = join(dir, 'shared.json');
+    const first = new VersionHistory(path);
+    const second = new VersionHistory(path);
+    await Promise.all([
+      first.add('https://api', null, 'notes.md', version('a1')),
+      second.add('https://api', null, 'notes.md', version('a2')),
+    ]);
+
+    const versions = await new VersionHistory(path).list('https://api', null, 'notes.md');
+    assert.deepEqual(versions.map((v) => v.artifact_id).sort(), ['a1', 'a2']);
+    assert.deepEqual(versions.map((v) => v.version).sort(), [1, 2]);
+  });
+
+  it('takes back a version whose artifact could not be deleted', async () => {
+    const history = new VersionHistory(join(dir, 'remove.json'));
+    await history.add('https://api', 'acme', 'notes.md', version('a1'));
+    const number = await history.add('https://api', 'acme', 'notes.md', version('a2'));
+    await history.remove('https://api', 'acme', 'notes.md', number);
+    assert.deepEqual((await history.list('https://api', 'acme', 'notes.md')).map((v) => v.artifact_id), ['a1']);
+  });
+});